@@ -1,25 +1,156 @@
-import React, { useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Scene } from './components/Scene';
 import { GestureDetector } from './components/GestureDetector';
+import { AlbumManager } from './components/AlbumManager';
+import { SeedControl } from './components/SeedControl';
+import { SceneSettings } from './components/SceneSettings';
+import { GestureSettings } from './components/GestureSettings';
+import { FormationEditor } from './components/FormationEditor';
 import { useStore } from './store';
-import { AppMode, GestureType } from './types';
+import { AppMode, GestureAction, GestureType, TrackingStatus } from './types';
+import { formatBytes } from './services/photoStorage';
+import { BINDABLE_GESTURES, GESTURE_ACTIONS, GESTURE_NAMES, findGestureForAction } from './utils/gestureBindings';
+import { getShareUrl, startShareLinkSync } from './services/shareLink';
+import { AlbumBundleError, BUNDLE_EXTENSION, createAlbumBundle, readAlbumBundle } from './services/albumBundle';
+
+interface AlbumNotice {
+  kind: 'info' | 'error';
+  text: string;
+}
+
+const CAMERA_FALLBACK_NOTES: Partial<Record<TrackingStatus, string>> = {
+  'model-error': 'Hand tracking could not load, so gestures are off.',
+  'denied': 'Camera access is blocked, so gestures are off.',
+  'no-device': 'No camera found, so gestures are off.',
+  'error': 'The camera could not start, so gestures are off.',
+};
 
 const App: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  const [albumNotice, setAlbumNotice] = useState<AlbumNotice | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [isManagerOpen, setIsManagerOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isGesturesOpen, setIsGesturesOpen] = useState(false);
+  const [isFormationsOpen, setIsFormationsOpen] = useState(false);
   const addPhotos = useStore(state => state.addPhotos);
   const mode = useStore(state => state.mode);
   const handData = useStore(state => state.handData);
   const focusedPhotoId = useStore(state => state.focusedPhotoId);
   const setMode = useStore(state => state.setMode);
+  const formations = useStore(state => state.formations);
+  const activeFormationId = useStore(state => state.activeFormationId);
+  const showFormation = useStore(state => state.showFormation);
+  const showMosaic = useStore(state => state.showMosaic);
+  const photoCount = useStore(state => state.photos.length);
+  const storageUsage = useStore(state => state.storageUsage);
+  const hydratePhotos = useStore(state => state.hydratePhotos);
+  const clearAlbum = useStore(state => state.clearAlbum);
+  const replaceAlbum = useStore(state => state.replaceAlbum);
+  const applyAlbumSettings = useStore(state => state.applyAlbumSettings);
+  const gestureBindings = useStore(state => state.gestureBindings);
+  const trackingStatus = useStore(state => state.trackingStatus);
+  // Without a camera the scene is driven by mouse, touch and keyboard instead
+  const isCameraless = trackingStatus in CAMERA_FALLBACK_NOTES;
+
+  // Instructions follow the binding table, so disabled gestures drop out
+  const boundGestures = BINDABLE_GESTURES.flatMap(gesture => {
+    const action = gestureBindings[gesture]?.action;
+    return action && action !== 'none' ? [{ gesture, action }] : [];
+  });
+  // Motion gestures are instant; keep the last one on screen briefly
+  const recentMotion = handData.motion && Date.now() - handData.motion.time < 1500 ? handData.motion : null;
+  const modeHint = (action: GestureAction) => {
+    const gesture = findGestureForAction(gestureBindings, action);
+    return gesture ? ` (${GESTURE_NAMES[gesture]})` : '';
+  };
+
+  // Restore the saved album once on startup
+  useEffect(() => {
+    hydratePhotos();
+  }, [hydratePhotos]);
+
+  // Open the view described by the link and keep the URL up to date
+  useEffect(() => startShareLinkSync(), []);
+
+  const handleCopyLink = async () => {
+    const url = getShareUrl();
+    try {
+      await navigator.clipboard.writeText(url);
+      setAlbumNotice({ kind: 'info', text: 'Link copied. Photos stay on this device; share an album export for those.' });
+    } catch {
+      setAlbumNotice({ kind: 'info', text: url });
+    }
+  };
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const urls: string[] = [];
-      for (let i = 0; i < e.target.files.length; i++) {
-        const file = e.target.files[i];
-        urls.push(URL.createObjectURL(file));
+      addPhotos(Array.from(e.target.files));
+      // Reset so picking the same file again still fires onChange
+      e.target.value = '';
+    }
+  };
+
+  const handleExportAlbum = async () => {
+    setIsBusy(true);
+    try {
+      const { photos, mode, getAlbumSettings } = useStore.getState();
+      const bundle = await createAlbumBundle(photos, mode, getAlbumSettings());
+      const url = URL.createObjectURL(bundle);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `christmas-tree-${new Date().toISOString().slice(0, 10)}${BUNDLE_EXTENSION}`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setAlbumNotice({ kind: 'info', text: `Exported ${photos.length} photos.` });
+    } catch (error) {
+      console.error('Album export failed:', error);
+      setAlbumNotice({ kind: 'error', text: 'Export failed: some photos could not be read.' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImportAlbum = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsBusy(true);
+    try {
+      const album = await readAlbumBundle(file);
+      let saved = true;
+      try {
+        await replaceAlbum(album.photos);
+      } catch (error) {
+        console.error('Failed to save imported album:', error);
+        saved = false;
       }
-      addPhotos(urls);
+      applyAlbumSettings(album.settings, album.mode);
+
+      const skippedNote = album.skipped.length > 0
+        ? ` ${album.skipped.length} skipped (${album.skipped.map(s => `#${s.index + 1}: ${s.reason}`).join('; ')}).`
+        : '';
+      const unsavedNote = saved ? '' : ' They could not be saved on this device and will be gone after a reload (storage may be full).';
+      setAlbumNotice({
+        kind: album.skipped.length > 0 || !saved ? 'error' : 'info',
+        text: `Imported ${album.photos.length} photos.${skippedNote}${unsavedNote}`,
+      });
+    } catch (error) {
+      console.error('Album import failed:', error);
+      setAlbumNotice({
+        kind: 'error',
+        text: error instanceof AlbumBundleError ? error.message : 'Import failed: the album could not be read.',
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleClearAlbum = () => {
+    if (window.confirm(`Remove all ${photoCount} photos from this album? This cannot be undone.`)) {
+      clearAlbum();
     }
   };
 
@@ -43,19 +174,47 @@ const App: React.FC = () => {
              Merry Christmas
            </h1>
            
+           {isCameraless ? (
+             <>
+               {/* Fallback Instructions: no camera, so no gestures */}
+               <p className="text-white/70 text-sm mt-2 space-y-1 hidden md:block">
+                 <span className="block text-white/50">{CAMERA_FALLBACK_NOTES[trackingStatus]}</span>
+                 <span className="block"><span className="font-bold text-yellow-400">Drag</span> to orbit, <span className="font-bold text-yellow-400">right-drag</span> to pan, <span className="font-bold text-yellow-400">scroll</span> to zoom.</span>
+                 <span className="block"><span className="font-bold text-yellow-400">Click</span> a photo or press <span className="font-bold text-yellow-400">Enter</span> to open it, <span className="font-bold text-yellow-400">← / →</span> to browse, <span className="font-bold text-yellow-400">Esc</span> to close.</span>
+                 <span className="block"><span className="font-bold text-yellow-400">1–4</span> switch between Tree, Scatter, Text and Love; <span className="font-bold text-yellow-400">arrows</span> orbit.</span>
+                 <span className="block">A <span className="font-bold text-yellow-400">gamepad</span> works too: sticks to orbit and aim, A to open, B to close.</span>
+               </p>
+               <div className="text-white/70 text-[9px] mt-1 leading-snug md:hidden">
+                 <span className="block text-white/50">{CAMERA_FALLBACK_NOTES[trackingStatus]}</span>
+                 <span className="text-yellow-400 font-bold">Drag</span>: Orbit &nbsp;|&nbsp; <span className="text-yellow-400 font-bold">Pinch</span>: Zoom &nbsp;|&nbsp; <span className="text-yellow-400 font-bold">Tap photo</span>: Open &nbsp;|&nbsp; <span className="text-yellow-400 font-bold">Buttons</span>: Mode
+               </div>
+             </>
+           ) : (
+           <>
            {/* Desktop Instructions */}
            <p className="text-white/70 text-sm mt-2 space-y-1 hidden md:block">
-             <span className="block">Make a <span className="font-bold text-yellow-400">Fist</span> to gather the tree.</span>
-             <span className="block"><span className="font-bold text-yellow-400">Victory (Peace)</span> sign for a wish.</span>
-             <span className="block"><span className="font-bold text-yellow-400">Open Hand</span> to scatter magic & close photos.</span>
-             <span className="block"><span className="font-bold text-yellow-400">Pinch</span> to explore memories.</span>
+             {boundGestures.map(({ gesture, action }) => (
+               <span key={gesture} className="block">
+                 <span className="font-bold text-yellow-400">{GESTURE_NAMES[gesture]}</span> to {GESTURE_ACTIONS[action].instruction}.
+               </span>
+             ))}
+             <span className="block"><span className="font-bold text-yellow-400">Pinch</span> to explore memories, <span className="font-bold text-yellow-400">Open Hand</span> to close them.</span>
+             <span className="block"><span className="font-bold text-yellow-400">Pinch with both hands</span>, then spread to zoom or turn to orbit.</span>
+             <span className="block"><span className="font-bold text-yellow-400">Swipe</span> a pointing finger to flip photos, <span className="font-bold text-yellow-400">draw a circle</span> to spin the tree, <span className="font-bold text-yellow-400">push</span> your palm forward to scatter.</span>
            </p>
 
            {/* Mobile Instructions (Condensed) */}
-           <div className="text-white/70 text-[9px] mt-1 space-y-1 md:hidden leading-snug">
-              <span className="block"><span className="text-yellow-400 font-bold">Fist</span>: Tree &nbsp;|&nbsp; <span className="text-yellow-400 font-bold">Victory</span>: Wish</span>
-              <span className="block"><span className="text-yellow-400 font-bold">Open</span>: Scatter &nbsp;|&nbsp; <span className="text-yellow-400 font-bold">Pinch</span>: Select</span>
+           <div className="text-white/70 text-[9px] mt-1 leading-snug md:hidden">
+              {boundGestures.map(({ gesture, action }, i) => (
+                <React.Fragment key={gesture}>
+                  {i > 0 && <>&nbsp;|&nbsp; </>}
+                  <span className="text-yellow-400 font-bold">{GESTURE_NAMES[gesture]}</span>: {GESTURE_ACTIONS[action].short}
+                </React.Fragment>
+              ))}
+              <span className="block mt-1"><span className="text-yellow-400 font-bold">Pinch</span>: Select</span>
            </div>
+           </>
+           )}
         </div>
 
         {/* Controls Section: Top Right - Vertical Stack */}
@@ -68,6 +227,13 @@ const App: React.FC = () => {
               accept="image/*"
               multiple
             />
+            <input
+              type="file"
+              ref={bundleInputRef}
+              onChange={handleImportAlbum}
+              className="hidden"
+              accept={`${BUNDLE_EXTENSION},application/json`}
+            />
             
             <button 
               onClick={() => fileInputRef.current?.click()}
@@ -75,16 +241,98 @@ const App: React.FC = () => {
             >
               + Add Memories
             </button>
+
+            {/* Album Bundle Export / Import */}
+            <div className="flex gap-2 -mt-1 mb-1">
+              <button
+                onClick={() => bundleInputRef.current?.click()}
+                disabled={isBusy}
+                className="text-[10px] md:text-xs text-white/70 hover:text-white border border-white/20 hover:bg-white/10 px-2 py-1 rounded transition-colors disabled:opacity-40"
+              >
+                Import
+              </button>
+              <button
+                onClick={handleExportAlbum}
+                disabled={isBusy || photoCount === 0}
+                className="text-[10px] md:text-xs text-white/70 hover:text-white border border-white/20 hover:bg-white/10 px-2 py-1 rounded transition-colors disabled:opacity-40"
+              >
+                Export
+              </button>
+            </div>
+
+            {/* Album Storage Indicator */}
+            {photoCount > 0 && (
+              <div className="flex items-center gap-2 text-[10px] md:text-xs text-white/60 -mt-1 mb-2">
+                <span className="font-mono">
+                  {photoCount} {photoCount === 1 ? 'photo' : 'photos'}
+                  {storageUsage && ` · ${formatBytes(storageUsage.used)}`}
+                  {storageUsage?.quota ? ` of ${formatBytes(storageUsage.quota)}` : ''}
+                </span>
+                <button
+                  onClick={() => setIsManagerOpen(true)}
+                  className="text-yellow-300/80 hover:text-yellow-300 underline underline-offset-2 transition-colors"
+                >
+                  Manage
+                </button>
+                <button
+                  onClick={handleClearAlbum}
+                  className="text-red-300/80 hover:text-red-300 underline underline-offset-2 transition-colors"
+                >
+                  Clear album
+                </button>
+              </div>
+            )}
             
+            <button
+              onClick={() => setIsSettingsOpen(true)}
+              className="text-[10px] md:text-xs text-white/70 hover:text-white border border-white/20 hover:bg-white/10 px-2 py-1 rounded transition-colors mb-1"
+            >
+              Scene Settings
+            </button>
+            <button
+              onClick={() => setIsFormationsOpen(true)}
+              className="text-[10px] md:text-xs text-white/70 hover:text-white border border-white/20 hover:bg-white/10 px-2 py-1 rounded transition-colors mb-1"
+            >
+              Formations
+            </button>
+            <button
+              onClick={() => setIsGesturesOpen(true)}
+              className="text-[10px] md:text-xs text-white/70 hover:text-white border border-white/20 hover:bg-white/10 px-2 py-1 rounded transition-colors mb-1"
+            >
+              Gestures
+            </button>
+            <button
+              onClick={handleCopyLink}
+              className="text-[10px] md:text-xs text-white/70 hover:text-white border border-white/20 hover:bg-white/10 px-2 py-1 rounded transition-colors mb-1"
+            >
+              Copy Share Link
+            </button>
+
             <button onClick={() => setMode(AppMode.TREE)} className={`min-w-[100px] text-right text-[10px] md:text-xs px-3 py-2 rounded border transition-colors backdrop-blur-sm whitespace-nowrap ${mode === AppMode.TREE ? 'bg-green-800/80 border-green-500 shadow-[0_0_10px_rgba(34,197,94,0.5)]' : 'bg-black/40 border-white/20 hover:bg-white/10'}`}>
-               Tree (Fist)
+               Tree{modeHint('mode-tree')}
             </button>
             <button onClick={() => setMode(AppMode.TEXT)} className={`min-w-[100px] text-right text-[10px] md:text-xs px-3 py-2 rounded border transition-colors backdrop-blur-sm whitespace-nowrap ${mode === AppMode.TEXT ? 'bg-red-800/80 border-red-500 shadow-[0_0_10px_rgba(239,68,68,0.5)]' : 'bg-black/40 border-white/20 hover:bg-white/10'}`}>
-               Text (Victory)
+               Text{modeHint('mode-text')}
             </button>
             <button onClick={() => setMode(AppMode.SCATTER)} className={`min-w-[100px] text-right text-[10px] md:text-xs px-3 py-2 rounded border transition-colors backdrop-blur-sm whitespace-nowrap ${mode === AppMode.SCATTER ? 'bg-blue-800/80 border-blue-500 shadow-[0_0_10px_rgba(59,130,246,0.5)]' : 'bg-black/40 border-white/20 hover:bg-white/10'}`}>
-               Scatter (Open)
+               Scatter{modeHint('mode-scatter')}
+            </button>
+            <button onClick={() => setMode(AppMode.COUNTDOWN)} className={`min-w-[100px] text-right text-[10px] md:text-xs px-3 py-2 rounded border transition-colors backdrop-blur-sm whitespace-nowrap ${mode === AppMode.COUNTDOWN ? 'bg-amber-700/80 border-amber-400 shadow-[0_0_10px_rgba(251,191,36,0.5)]' : 'bg-black/40 border-white/20 hover:bg-white/10'}`}>
+               Countdown{modeHint('mode-countdown')}
             </button>
+            {formations.map(formation => {
+              const isShown = mode === AppMode.FORMATION && formation.id === activeFormationId;
+              return (
+                <button key={formation.id} onClick={() => showFormation(formation.id)} className={`min-w-[100px] max-w-[160px] truncate text-right text-[10px] md:text-xs px-3 py-2 rounded border transition-colors backdrop-blur-sm whitespace-nowrap ${isShown ? 'bg-yellow-700/80 border-yellow-500 shadow-[0_0_10px_rgba(234,179,8,0.5)]' : 'bg-black/40 border-white/20 hover:bg-white/10'}`}>
+                   {formation.name}
+                </button>
+              );
+            })}
+            {(focusedPhotoId || mode === AppMode.MOSAIC) && (
+              <button onClick={() => focusedPhotoId ? showMosaic(focusedPhotoId) : setMode(AppMode.TREE)} className={`min-w-[100px] text-right text-[10px] md:text-xs px-3 py-2 rounded border transition-colors backdrop-blur-sm whitespace-nowrap ${mode === AppMode.MOSAIC ? 'bg-purple-800/80 border-purple-500 shadow-[0_0_10px_rgba(168,85,247,0.5)]' : 'bg-black/40 border-white/20 hover:bg-white/10'}`}>
+                 {mode === AppMode.MOSAIC && !focusedPhotoId ? 'Back to Tree' : 'Photo Mosaic'}
+              </button>
+            )}
         </div>
       </div>
 
@@ -95,10 +343,30 @@ const App: React.FC = () => {
             {mode === AppMode.TREE && <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />}
             {mode === AppMode.TEXT && <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />}
             {mode === AppMode.SCATTER && <span className="w-2 h-2 rounded-full bg-blue-500 animate-pulse" />}
+            {mode === AppMode.FORMATION && <span className="w-2 h-2 rounded-full bg-yellow-500 animate-pulse" />}
+            {mode === AppMode.MOSAIC && <span className="w-2 h-2 rounded-full bg-purple-500 animate-pulse" />}
+            {mode === AppMode.COUNTDOWN && <span className="w-2 h-2 rounded-full bg-amber-400 animate-pulse" />}
             {mode}
           </div>
           <div className="text-white/50 text-xs mt-2">
             Gesture: <span className="text-yellow-400 font-mono">{handData.gesture}</span>
+            {handData.gesture !== GestureType.NONE && (
+              <span className="ml-1 text-white/40 font-mono">{Math.round(handData.confidence * 100)}%</span>
+            )}
+            {recentMotion && <span className="ml-2 text-green-400 font-mono">{recentMotion.type}</span>}
+          </div>
+          {handData.hands.length > 1 && (
+            <div className="text-white/50 text-xs">
+              {handData.hands.map(hand => (
+                <span key={hand.handedness} className="ml-2">
+                  {hand.handedness[0]}: <span className="text-yellow-400 font-mono">{hand.gesture}</span>
+                </span>
+              ))}
+              {handData.bimanual?.active && <span className="ml-2 text-green-400">GRAB</span>}
+            </div>
+          )}
+          <div className="mt-1">
+            <SeedControl />
           </div>
       </div>
       
@@ -113,6 +381,26 @@ const App: React.FC = () => {
           </div>
       </div>
 
+      {/* Photo Management Panel */}
+      {isManagerOpen && <AlbumManager onClose={() => setIsManagerOpen(false)} />}
+
+      {/* Scene Configuration Panel */}
+      {isSettingsOpen && <SceneSettings onClose={() => setIsSettingsOpen(false)} />}
+
+      {/* Image Formation Panel */}
+      {isFormationsOpen && <FormationEditor onClose={() => setIsFormationsOpen(false)} />}
+
+      {/* Gesture Binding Panel */}
+      {isGesturesOpen && <GestureSettings onClose={() => setIsGesturesOpen(false)} />}
+
+      {/* Album Import / Export Result */}
+      {albumNotice && (
+          <div className={`absolute bottom-20 left-1/2 -translate-x-1/2 z-20 max-w-[90vw] md:max-w-lg px-4 py-3 rounded-lg text-white text-xs md:text-sm pointer-events-auto border backdrop-blur-md flex items-start gap-3 ${albumNotice.kind === 'error' ? 'bg-red-900/90 border-red-500' : 'bg-green-900/80 border-green-500'}`}>
+              <span className="flex-1">{albumNotice.text}</span>
+              <button onClick={() => setAlbumNotice(null)} className="text-white/70 hover:text-white">✕</button>
+          </div>
+      )}
+
       {/* API Key Modal (Simple Check) */}
       {!process.env.API_KEY && (
           <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-red-900/90 p-6 rounded-lg text-white text-center pointer-events-auto border border-red-500 shadow-2xl max-w-[90vw]">
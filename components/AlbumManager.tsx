@@ -0,0 +1,131 @@
+import React, { useRef, useState } from 'react';
+import { useStore } from '../store';
+import { getPhotoHeightRange, getTreeCone } from '../utils/photoLayout';
+import { PhotoData } from '../types';
+
+interface AlbumManagerProps {
+  onClose: () => void;
+}
+
+export const AlbumManager: React.FC<AlbumManagerProps> = ({ onClose }) => {
+  const photos = useStore(state => state.photos);
+
+  return (
+    <div className="absolute top-0 right-0 h-full w-full sm:w-96 z-30 pointer-events-auto bg-black/80 backdrop-blur-md border-l border-white/20 text-white flex flex-col shadow-[0_0_30px_rgba(0,0,0,0.6)]">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+        <h2 className="font-['Mountains_of_Christmas'] text-2xl text-yellow-400">Manage Memories</h2>
+        <button onClick={onClose} className="text-white/70 hover:text-white text-sm">✕</button>
+      </div>
+
+      {photos.length === 0 ? (
+        <p className="p-4 text-sm text-white/60">No photos yet. Use "+ Add Memories" to decorate the tree.</p>
+      ) : (
+        <ul className="flex-1 overflow-y-auto divide-y divide-white/10">
+          {photos.map((photo, index) => (
+            <AlbumManagerRow key={photo.id} photo={photo} index={index} total={photos.length} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+interface AlbumManagerRowProps {
+  photo: PhotoData;
+  index: number;
+  total: number;
+}
+
+const AlbumManagerRow: React.FC<AlbumManagerRowProps> = ({ photo, index, total }) => {
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+  const [caption, setCaption] = useState(photo.description ?? '');
+  const [lastDescription, setLastDescription] = useState(photo.description);
+  const focusedPhotoId = useStore(state => state.focusedPhotoId);
+  const setFocusedPhotoId = useStore(state => state.setFocusedPhotoId);
+  const updatePhotoDescription = useStore(state => state.updatePhotoDescription);
+  const removePhoto = useStore(state => state.removePhoto);
+  const replacePhoto = useStore(state => state.replacePhoto);
+  const movePhoto = useStore(state => state.movePhoto);
+  const pinPhotoHeight = useStore(state => state.pinPhotoHeight);
+  const tree = useStore(state => state.sceneConfig.tree);
+  const { minY, maxY } = getPhotoHeightRange(getTreeCone(tree));
+
+  // Pick up captions that arrive from Gemini while the panel is open
+  if (photo.description !== lastDescription) {
+    setLastDescription(photo.description);
+    setCaption(photo.description ?? '');
+  }
+
+  const isPinned = photo.pinnedY !== undefined;
+  const isFocused = focusedPhotoId === photo.id;
+
+  const commitCaption = () => {
+    const trimmed = caption.trim();
+    if (trimmed !== (photo.description ?? '')) {
+      updatePhotoDescription(photo.id, trimmed);
+    }
+  };
+
+  const handleReplace = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) replacePhoto(photo.id, file);
+  };
+
+  const buttonClass = 'text-[10px] px-2 py-1 rounded border border-white/20 hover:bg-white/10 transition-colors disabled:opacity-30';
+
+  return (
+    <li className={`p-3 flex gap-3 ${isFocused ? 'bg-yellow-500/10' : ''}`}>
+      <button
+        onClick={() => setFocusedPhotoId(isFocused ? null : photo.id)}
+        className="shrink-0 w-16 h-16 rounded overflow-hidden border border-white/20 hover:border-yellow-400"
+        title={isFocused ? 'Close photo' : 'Show photo'}
+      >
+        <img src={photo.url} alt="" className="w-full h-full object-cover" />
+      </button>
+
+      <div className="flex-1 min-w-0 flex flex-col gap-2">
+        <textarea
+          value={caption}
+          onChange={e => setCaption(e.target.value)}
+          onBlur={commitCaption}
+          placeholder="Write a caption..."
+          rows={2}
+          className="w-full bg-white/5 border border-white/10 rounded px-2 py-1 text-xs text-white placeholder-white/30 resize-none focus:outline-none focus:border-yellow-400/60"
+        />
+
+        <label className="flex items-center gap-2 text-[10px] text-white/70">
+          <input
+            type="checkbox"
+            checked={isPinned}
+            onChange={e => pinPhotoHeight(photo.id, e.target.checked ? photo.position[1] : null)}
+          />
+          Pin height
+          <input
+            type="range"
+            min={minY}
+            max={maxY}
+            step={0.1}
+            value={photo.pinnedY ?? photo.position[1]}
+            disabled={!isPinned}
+            onChange={e => pinPhotoHeight(photo.id, parseFloat(e.target.value))}
+            className="flex-1 accent-yellow-400 disabled:opacity-30"
+          />
+        </label>
+
+        <div className="flex flex-wrap gap-1">
+          <button onClick={() => movePhoto(photo.id, index - 1)} disabled={index === 0} className={buttonClass} title="Move up">↑</button>
+          <button onClick={() => movePhoto(photo.id, index + 1)} disabled={index === total - 1} className={buttonClass} title="Move down">↓</button>
+          <input type="file" ref={replaceInputRef} onChange={handleReplace} className="hidden" accept="image/*" />
+          <button onClick={() => replaceInputRef.current?.click()} className={buttonClass}>Replace</button>
+          <button
+            onClick={() => removePhoto(photo.id)}
+            className={`${buttonClass} text-red-300 border-red-400/40 hover:bg-red-500/20`}
+          >
+            Remove
+          </button>
+        </div>
+      </div>
+    </li>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useStore } from '../store';
+import { subscribeHandFrames } from '../services/handFrames';
+import { DEFAULT_THRESHOLDS, GESTURE_PRIORITY, HandMeasure, ScoredGesture, measureHand } from '../utils/gestureClassifier';
+import { CalibrationSamples, MIN_SAMPLES, calibrateThresholds, measureMatchQuality } from '../utils/gestureCalibration';
+import { GESTURE_NAMES } from '../utils/gestureBindings';
+import { MatchQualityMeter } from './MatchQualityMeter';
+
+interface CalibrationWizardProps {
+  onClose: () => void;
+}
+
+// About three seconds of camera frames per pose
+const CAPTURE_FRAMES = 90;
+
+const GESTURE_HINTS: Record<ScoredGesture, string> = {
+  HEART: 'Thumb, index and little finger up; middle and ring fingers folded.',
+  VICTORY: 'Index and middle finger up in a V, the others folded.',
+  CLOSED_FIST: 'Curl every finger into a fist.',
+  PINCH: 'Touch the tips of your thumb and index finger together.',
+  OPEN_HAND: 'Spread all five fingers wide.',
+};
+
+type Step = 'name' | number | 'result';
+
+const percent = (value: number | undefined) => value === undefined ? '–' : `${Math.round(value * 100)}%`;
+
+// Guided flow: hold each pose in turn, then save the derived thresholds as a profile
+export const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ onClose }) => {
+  const gestureProfiles = useStore(state => state.gestureProfiles);
+  const saveGestureProfile = useStore(state => state.saveGestureProfile);
+  const [name, setName] = useState(`Profile ${gestureProfiles.length + 1}`);
+  const [step, setStep] = useState<Step>('name');
+  const [captured, setCaptured] = useState(0);
+  const samples = useRef<CalibrationSamples>({});
+
+  const gesture = typeof step === 'number' ? GESTURE_PRIORITY[step] : null;
+
+  const nextStep = () => {
+    setCaptured(0);
+    setStep(current => typeof current === 'number' && current + 1 < GESTURE_PRIORITY.length ? current + 1 : 'result');
+  };
+
+  // Collect one measurement per frame while a single hand is in view
+  useEffect(() => {
+    if (!gesture) return;
+    samples.current[gesture] = [];
+    return subscribeHandFrames(detections => {
+      if (detections.length !== 1) return;
+      const measures = samples.current[gesture] as HandMeasure[];
+      if (measures.length >= CAPTURE_FRAMES) return;
+      measures.push(measureHand(detections[0].landmarks));
+      setCaptured(measures.length);
+    });
+  }, [gesture]);
+
+  useEffect(() => {
+    if (captured >= CAPTURE_FRAMES) nextStep();
+  }, [captured]);
+
+  const result = useMemo(
+    () => step === 'result' ? calibrateThresholds(samples.current) : null,
+    [step]
+  );
+  const defaultQuality = useMemo(
+    () => step === 'result' ? measureMatchQuality(samples.current, DEFAULT_THRESHOLDS) : null,
+    [step]
+  );
+
+  const handleSave = () => {
+    if (!result) return;
+    saveGestureProfile({ name: name.trim(), thresholds: result.thresholds, quality: result.quality, createdAt: Date.now() });
+    onClose();
+  };
+
+  const buttonClass = 'text-[10px] md:text-xs px-2 py-1 rounded border border-white/20 hover:bg-white/10 transition-colors disabled:opacity-40';
+
+  return (
+    <div className="flex flex-col gap-3 text-xs text-white/70">
+      {step === 'name' && (
+        <>
+          <p>Hold each gesture for a few seconds so the app can learn your hand. Keep one hand in view, at your usual distance.</p>
+          <label className="flex flex-col gap-1">
+            Profile name
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              maxLength={40}
+              className="bg-transparent border-b border-white/20 focus:border-yellow-400 focus:outline-none text-white"
+            />
+          </label>
+          {gestureProfiles.some(p => p.name === name.trim()) && (
+            <p className="text-yellow-300/80">Saving will replace the existing "{name.trim()}" profile.</p>
+          )}
+          <div className="flex gap-2">
+            <button onClick={() => setStep(0)} disabled={!name.trim()} className={buttonClass}>Start</button>
+            <button onClick={onClose} className={buttonClass}>Cancel</button>
+          </div>
+        </>
+      )}
+
+      {gesture && (
+        <>
+          <div className="text-white/50">Step {(step as number) + 1} of {GESTURE_PRIORITY.length}</div>
+          <div className="text-lg text-yellow-400 font-bold">{GESTURE_NAMES[gesture]}</div>
+          <p>{GESTURE_HINTS[gesture]}</p>
+          <div className="h-1.5 rounded bg-white/10 overflow-hidden">
+            <div className="h-full bg-yellow-400" style={{ width: `${(captured / CAPTURE_FRAMES) * 100}%` }} />
+          </div>
+          <MatchQualityMeter thresholds={DEFAULT_THRESHOLDS} highlight={gesture} />
+          <div className="flex gap-2">
+            <button onClick={nextStep} className={buttonClass}>
+              {captured >= MIN_SAMPLES ? 'Next' : 'Skip'}
+            </button>
+            <button onClick={onClose} className={buttonClass}>Cancel</button>
+          </div>
+        </>
+      )}
+
+      {result && (
+        <>
+          <div className="text-white font-bold">Recognition of your captured poses</div>
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-white/50">
+                <th className="font-normal">Gesture</th>
+                <th className="font-normal text-right">Default</th>
+                <th className="font-normal text-right">Calibrated</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {GESTURE_PRIORITY.map(g => (
+                <tr key={g}>
+                  <td className="font-sans">{GESTURE_NAMES[g]}</td>
+                  <td className="text-right">{percent(defaultQuality?.[g])}</td>
+                  <td className="text-right text-yellow-400">{percent(result.quality[g])}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {result.warnings.length > 0 && (
+            <ul className="text-[10px] text-yellow-200 bg-yellow-900/30 border border-yellow-500/30 rounded p-2 space-y-1">
+              {result.warnings.map(warning => <li key={warning}>{warning}</li>)}
+            </ul>
+          )}
+          <div className="flex gap-2">
+            <button onClick={handleSave} className={buttonClass}>Save "{name.trim()}"</button>
+            <button onClick={onClose} className={buttonClass}>Discard</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,23 +1,41 @@
-import React, { useMemo, useRef, useState, useLayoutEffect } from 'react';
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { useFrame, useLoader } from '@react-three/fiber';
 import * as THREE from 'three';
 import { useStore } from '../store';
-import { AppMode } from '../types';
-import { Instance, Instances, Trail, useTexture } from '@react-three/drei';
+import { AppMode, MotionGesture, OrnamentType, SceneConfig } from '../types';
+import { Random, createRandom } from '../utils/random';
+import { getTreeMaxRadius } from '../utils/sceneConfig';
+import { TextFormation, createTextFormation } from '../utils/textFormation';
+import { createImageFormation } from '../utils/formation';
+import { createPhotoMosaic, loadMosaicImage } from '../utils/photoMosaic';
+import { CountdownFrame, createClock, getCountdownFrame, getCountdownTarget } from '../utils/countdown';
+import { Trail, useTexture } from '@react-three/drei';
+import { MorphInstances, MorphSpeed, createMorphTargetsBuilder, retargetMorph, setMorphLayout, setMorphMosaic, useMorphBlend } from './MorphInstances';
 import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
 import { RoundedBoxGeometry } from 'three/examples/jsm/geometries/RoundedBoxGeometry.js';
 
 // Detect mobile device width for performance optimization
 const IS_MOBILE = typeof window !== 'undefined' && window.innerWidth < 768;
 
-// Increased proportional particle counts
-const PARTICLE_COUNT = IS_MOBILE ? 3500 : 9000;
-const ORNAMENT_COUNT = IS_MOBILE ? 400 : 700;
+// Spin speed (rad/s) added by one circle gesture; it decays to about a full turn
+const CIRCLE_SPIN = Math.PI * 3;
 
-// Tree Geometry Constants (Aspect Ratio 1:0.7 -> Width = 0.7 * Height)
-const TREE_HEIGHT = 12;
-const TREE_WIDTH_RATIO = 0.7;
-const MAX_RADIUS = (TREE_HEIGHT * TREE_WIDTH_RATIO) / 2; // 4.2
+// How quickly particles and ornaments move to a new mode's layout
+const PARTICLE_SPEED: MorphSpeed = { gather: 2.5, scatter: 4.0 };
+const ORNAMENT_SPEED: MorphSpeed = { gather: 3.0, scatter: 4.5 };
+
+// Particle diameters, which the mosaic scales each to a tile from
+const GREEN_PARTICLE_SIZE = 0.05;
+const YELLOW_PARTICLE_SIZE = 0.06;
+
+// Instance colors per ornament type (boxes pick from the configured palette)
+const ORNAMENT_COLORS: Record<Exclude<OrnamentType, 'box'>, string> = {
+    sphere: '#fbbf24',
+    bell: '#e5e7eb',
+    pinecone: '#d97706',
+    stocking: '#ef4444',
+    cane: '#ffffff', // White base for texture
+};
 
 // Audio Context Singleton
 let sharedAudioCtx: AudioContext | null = null;
@@ -82,26 +100,31 @@ const playStarJumpSound = (pitchFactor: number) => {
     }
 };
 
+// Rising run of chimes for midnight
+const playNewYearChimes = () => {
+    [1, 1.25, 1.5, 2].forEach((pitch, i) => setTimeout(() => playStarJumpSound(pitch), i * 150));
+};
+
 // Helper to generate points for a cone shape
-const getTreePos = (volume: boolean) => {
-    // Height from -6 to +6
-    const y = (Math.random() * TREE_HEIGHT) - (TREE_HEIGHT / 2);
+const getTreePos = (tree: SceneConfig['tree'], volume: boolean, random: Random) => {
+    // Height from -height/2 to +height/2
+    const y = (random() * tree.height) - (tree.height / 2);
     
     // Normalized height (0 at bottom, 1 at top)
-    const h = (y + (TREE_HEIGHT / 2)) / TREE_HEIGHT;
+    const h = (y + (tree.height / 2)) / tree.height;
     
     // Cone radius at this height
-    const maxR = MAX_RADIUS * (1 - h);
+    const maxR = getTreeMaxRadius(tree) * (1 - h);
     
-    const angle = Math.random() * Math.PI * 2;
+    const angle = random() * Math.PI * 2;
     
     let r;
     if (volume) {
         // Volume: sqrt makes distribution uniform in the circle
-        r = maxR * Math.sqrt(Math.random());
+        r = maxR * Math.sqrt(random());
     } else {
         // Surface: Concentrate near edge
-        r = maxR * (0.85 + Math.random() * 0.15);
+        r = maxR * (0.85 + random() * 0.15);
     }
 
     const x = Math.cos(angle) * r;
@@ -111,12 +134,12 @@ const getTreePos = (volume: boolean) => {
 };
 
 // Helper for scatter coordinates
-const getScatterPos = () => {
+const getScatterPos = (random: Random) => {
     const range = 20;
     return new THREE.Vector3(
-        (Math.random() - 0.5) * range,
-        (Math.random() - 0.5) * range,
-        (Math.random() - 0.5) * range
+        (random() - 0.5) * range,
+        (random() - 0.5) * range,
+        (random() - 0.5) * range
     );
 };
 
@@ -236,89 +259,61 @@ const useStripedTexture = () => {
     }, []);
 };
 
-// Helper for Text Generation using Off-screen Canvas
-const getTextPositions = (count: number, textLines: string[], isMobile: boolean): THREE.Vector3[] => {
-    const canvas = document.createElement('canvas');
-    const width = 256;
-    const height = 128;
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx) return Array(count).fill(new THREE.Vector3(0,0,0));
-
-    // Draw background and text
-    ctx.fillStyle = '#000000';
-    ctx.fillRect(0, 0, width, height);
-    
-    // Use the loaded font or fallback
-    ctx.font = 'bold 50px "Mountains of Christmas", serif'; 
-    ctx.fillStyle = '#ffffff';
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    
-    // Draw Text lines
-    if (textLines.length === 1) {
-        ctx.fillText(textLines[0], width / 2, height / 2);
-    } else {
-        ctx.fillText(textLines[0], width / 2, height / 3);
-        ctx.fillText(textLines[1], width / 2, (height / 3) * 2.2);
-    }
-
-    const imgData = ctx.getImageData(0, 0, width, height);
-    const data = imgData.data;
-    const validPixels: {x: number, y: number}[] = [];
-
-    // Scan for white pixels
-    for(let i = 0; i < width * height; i++) {
-        // Check Alpha and Red channel (white text)
-        if(data[i * 4] > 100) { 
-            const x = (i % width);
-            const y = Math.floor(i / width);
-            validPixels.push({x, y});
-        }
-    }
-
-    const result: THREE.Vector3[] = [];
-    if (validPixels.length === 0) return Array(count).fill(new THREE.Vector3(0,0,0));
-
-    // Determine 3D mapping size
-    const viewWidth = isMobile ? 9.0 : 16;
-    const viewHeight = isMobile ? 4.5 : 8;
-
-    for(let i = 0; i < count; i++) {
-        const pixel = validPixels[i % validPixels.length];
-        
-        // Map 2D pixel to 3D Space (Scale and Center)
-        const nx = (pixel.x / width - 0.5) * viewWidth;
-        const ny = -(pixel.y / height - 0.5) * viewHeight; // Invert Y
-        
-        // Add random Z depth for 3D volume effect
-        const nz = (Math.random() - 0.5) * 0.8; 
-        
-        // Add slight jitter to x/y to prevent grid look
-        const jitter = 0.05;
-        result.push(new THREE.Vector3(
-            nx + (Math.random() - 0.5) * jitter, 
-            ny + (Math.random() - 0.5) * jitter, 
-            nz
-        ));
-    }
-    
-    // Shuffle the result so particles fill in randomly
-    for (let i = result.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [result[i], result[j]] = [result[j], result[i]];
-    }
-
-    return result;
-}
-
 export const ChristmasTree: React.FC = () => {
     const mode = useStore(state => state.mode);
+    const sceneSeed = useStore(state => state.sceneSeed);
+    const tree = useStore(state => state.sceneConfig.tree);
+    const particleConfig = useStore(state => state.sceneConfig.particles);
+    const ornamentConfig = useStore(state => state.sceneConfig.ornaments);
+    const messages = useStore(state => state.sceneConfig.messages);
+    // The formation being edited, else the chosen one
+    const formation = useStore(state => state.formationPreview ?? state.formations.find(f => f.id === state.activeFormationId) ?? null);
+    const mosaicUrl = useStore(state => state.photos.find(p => p.id === state.mosaicPhotoId)?.url ?? null);
+    const countdownConfig = useStore(state => state.sceneConfig.countdown);
+    const clockOffset = useStore(state => state.clockOffset);
+
+    const particleCount = IS_MOBILE ? particleConfig.mobileCount : particleConfig.count;
+    const ornamentCount = IS_MOBILE ? ornamentConfig.mobileCount : ornamentConfig.count;
+    const { yellowRatio } = particleConfig;
+    const { weights, boxColors } = ornamentConfig;
     
-    const textPositions = useMemo(() => getTextPositions(PARTICLE_COUNT + ORNAMENT_COUNT, ['Merry','Christmas'], IS_MOBILE), []);
-    const loveTextPositions = useMemo(() => getTextPositions(PARTICLE_COUNT + ORNAMENT_COUNT, ['G X X'], IS_MOBILE), []);
+    const textFormation = useMemo(() => createTextFormation(messages.text, particleCount + ornamentCount, IS_MOBILE, createRandom(sceneSeed, 'text')), [messages.text, sceneSeed, particleCount, ornamentCount]);
+    const loveFormation = useMemo(() => createTextFormation(messages.love, particleCount + ornamentCount, IS_MOBILE, createRandom(sceneSeed, 'love-text')), [messages.love, sceneSeed, particleCount, ornamentCount]);
+    const imageFormation = useMemo(() => formation && createImageFormation(formation, particleCount + ornamentCount, IS_MOBILE, createRandom(sceneSeed, 'formation')), [formation, sceneSeed, particleCount, ornamentCount]);
+    const textPositions = textFormation.positions;
+    const loveTextPositions = loveFormation.positions;
+    const formationPositions = imageFormation?.positions ?? null;
+
+    // The mosaic's photo, decoded; until then MOSAIC mode holds the scatter
+    const [mosaicImage, setMosaicImage] = useState<{ url: string; image: HTMLImageElement } | null>(null);
+    useEffect(() => {
+        if (!mosaicUrl) return;
+        let cancelled = false;
+        loadMosaicImage(mosaicUrl)
+            .then(image => { if (!cancelled) setMosaicImage({ url: mosaicUrl, image }); })
+            .catch(error => console.error('Failed to load the mosaic photo:', error));
+        return () => { cancelled = true; };
+    }, [mosaicUrl]);
+    const mosaicSource = mosaicImage && mosaicImage.url === mosaicUrl ? mosaicImage.image : null;
+    // Only the particles make up the picture; the ornaments stand back in the scatter
+    const photoMosaic = useMemo(() => mosaicSource && createPhotoMosaic(mosaicSource, particleCount, IS_MOBILE), [mosaicSource, particleCount]);
+
+    // The countdown's current frame, advanced in the frame loop; null outside COUNTDOWN
+    const isCountdown = mode === AppMode.COUNTDOWN;
+    const clock = useMemo(() => createClock(clockOffset), [clockOffset]);
+    // Worked out again each time the mode is entered, so an open tab moves on to the next year
+    const countdownTarget = useMemo(() => getCountdownTarget(countdownConfig, clock()), [countdownConfig, clock, isCountdown]);
+    const [countdown, setCountdown] = useState<CountdownFrame | null>(null);
+    const countdownRef = useRef<CountdownFrame | null>(null);
+    const countdownMessage = countdown?.message ?? '';
+    // Laid out like TEXT mode, once per change of the digits
+    const countdownFormation = useMemo(() => countdownMessage
+        ? createTextFormation(countdownMessage, particleCount + ornamentCount, IS_MOBILE, createRandom(sceneSeed, 'countdown'))
+        : null, [countdownMessage, sceneSeed, particleCount, ornamentCount]);
+
+    // Layouts that are not ready yet hold the scatter, and so does the burst at midnight
+    const isWaiting = (mode === AppMode.MOSAIC && !photoMosaic) || (isCountdown && !countdownFormation);
+    const blendMode = isWaiting ? AppMode.SCATTER : mode;
 
     // Textures & Shapes
     const stripedTexture = useStripedTexture();
@@ -328,10 +323,10 @@ export const ChristmasTree: React.FC = () => {
     const baubleCapGeometry = useMemo(() => createBaubleCapGeometry(), []);
     const stockingShape = useMemo(() => createStockingShape(), []);
     
-    // Pre-create geometries to pass as props to Instances to avoid undefined errors
+    // Pre-create geometries to pass as props to MorphInstances
     const boxGeometry = useMemo(() => new RoundedBoxGeometry(0.2, 0.2, 0.2, 4, 0.02), []);
-    const particleGreenGeo = useMemo(() => new THREE.DodecahedronGeometry(0.025, 0), []);
-    const particleYellowGeo = useMemo(() => new THREE.DodecahedronGeometry(0.03, 0), []);
+    const particleGreenGeo = useMemo(() => new THREE.DodecahedronGeometry(GREEN_PARTICLE_SIZE / 2, 0), []);
+    const particleYellowGeo = useMemo(() => new THREE.DodecahedronGeometry(YELLOW_PARTICLE_SIZE / 2, 0), []);
     const sphereGeo = useMemo(() => new THREE.SphereGeometry(0.12, 32, 32), []);
     const pineConeGeo = useMemo(() => new THREE.ConeGeometry(0.06, 0.15, 8), []);
     const stockingExtrudeGeo = useMemo(() => new THREE.ExtrudeGeometry(stockingShape, { depth: 0.1, bevelEnabled: true, bevelThickness: 0.02, bevelSize: 0.02, bevelSegments: 3 }), [stockingShape]);
@@ -339,75 +334,128 @@ export const ChristmasTree: React.FC = () => {
 
     // Generate Particles
     const particles = useMemo(() => {
-        const temp = [];
-        for(let i=0; i<PARTICLE_COUNT; i++) {
-             temp.push({
-                 treePos: getTreePos(true), // volume fill
-                 scatterPos: getScatterPos(),
-                 textPos: textPositions[i],
-                 lovePos: loveTextPositions[i],
-                 type: Math.random() < 0.3 ? 'yellow' : 'green',
-                 phase: Math.random() * Math.PI * 2,
-                 twinkleSpeed: 1 + Math.random() * 4
+        const random = createRandom(sceneSeed, 'particles');
+        const green = createMorphTargetsBuilder(particleCount, { twinkle: true, mosaic: true });
+        const yellow = createMorphTargetsBuilder(particleCount, { twinkle: true, mosaic: true });
+        for(let i=0; i<particleCount; i++) {
+             const treePos = getTreePos(tree, true, random); // volume fill
+             const scatterPos = getScatterPos(random);
+             const isYellow = random() < yellowRatio;
+             const builder = isYellow ? yellow : green;
+             builder.add({
+                 index: i,
+                 tree: treePos,
+                 scatter: scatterPos,
+                 phase: random() * Math.PI * 2,
+                 twinkleSpeed: 1 + random() * 4
              });
         }
-        return temp;
-    }, [textPositions, loveTextPositions]);
-
-    const greenParticles = useMemo(() => particles.filter(p => p.type === 'green'), [particles]);
-    const yellowParticles = useMemo(() => particles.filter(p => p.type === 'yellow'), [particles]);
+        return { green: green.build(), yellow: yellow.build() };
+    }, [sceneSeed, tree, particleCount, yellowRatio]);
 
     // Generate Ornaments
     const ornamentGroups = useMemo(() => {
-        const boxes = [];
-        const spheres = [];
-        const canes = [];
-        const bells = [];
-        const pinecones = [];
-        const stockings = [];
+        const random = createRandom(sceneSeed, 'ornaments');
+        const builders: Record<OrnamentType, ReturnType<typeof createMorphTargetsBuilder>> = {
+            box: createMorphTargetsBuilder(ornamentCount, { spin: true, color: true }),
+            sphere: createMorphTargetsBuilder(ornamentCount, { spin: true, color: true }),
+            bell: createMorphTargetsBuilder(ornamentCount, { spin: true, color: true }),
+            pinecone: createMorphTargetsBuilder(ornamentCount, { spin: true, color: true }),
+            stocking: createMorphTargetsBuilder(ornamentCount, { spin: true, color: true }),
+            cane: createMorphTargetsBuilder(ornamentCount, { spin: true, color: true }),
+        };
         
-        let globalIndex = PARTICLE_COUNT; 
+        let globalIndex = particleCount; 
 
-        for(let i=0; i<ORNAMENT_COUNT; i++) {
-            const typeRoll = Math.random();
+        // Cumulative thresholds from the relative weights
+        const types: OrnamentType[] = ['box', 'sphere', 'bell', 'pinecone', 'stocking', 'cane'];
+        const totalWeight = types.reduce((sum, type) => sum + weights[type], 0);
+
+        for(let i=0; i<ornamentCount; i++) {
+            let typeRoll = random() * totalWeight;
+            const type = types.find(t => (typeRoll -= weights[t]) < 0) ?? 'cane';
+            const treePos = getTreePos(tree, false, random); // surface
+            const scatterPos = getScatterPos(random);
             const data = {
-                treePos: getTreePos(false), // surface
-                scatterPos: getScatterPos(),
-                textPos: textPositions[globalIndex % textPositions.length],
-                lovePos: loveTextPositions[globalIndex % loveTextPositions.length]
+                index: globalIndex,
+                tree: treePos,
+                scatter: scatterPos,
+                // Initial rotation, shared by every part of the ornament (box + ribbon)
+                rotation: new THREE.Euler(random() * Math.PI, random() * Math.PI, random() * Math.PI)
             };
             globalIndex++;
 
-            if (typeRoll < 0.20) {
-                // Box
-                boxes.push({ ...data, color: Math.random() > 0.5 ? '#ef4444' : '#fbbf24' });
-            } else if (typeRoll < 0.40) {
-                // Sphere
-                spheres.push({ ...data, color: '#fbbf24' });
-            } else if (typeRoll < 0.55) {
-                // Bells
-                bells.push({ ...data, color: '#e5e7eb' }); 
-            } else if (typeRoll < 0.70) {
-                 // Pinecones
-                 pinecones.push({ ...data, color: '#d97706' });
-            } else if (typeRoll < 0.85) {
-                // Stockings
-                stockings.push({ ...data, color: '#ef4444' });
-            } else {
-                // Cane
-                canes.push({ ...data, color: '#ffffff' }); // White base for texture
-            }
+            const color = type === 'box' ? boxColors[Math.floor(random() * boxColors.length)] : ORNAMENT_COLORS[type];
+            builders[type].add({ ...data, color });
         }
-        return { boxes, spheres, canes, bells, pinecones, stockings };
-    }, [textPositions, loveTextPositions]);
+        return {
+            boxes: builders.box.build(),
+            spheres: builders.sphere.build(),
+            canes: builders.cane.build(),
+            bells: builders.bell.build(),
+            pinecones: builders.pinecone.build(),
+            stockings: builders.stocking.build(),
+        };
+    }, [sceneSeed, tree, particleCount, ornamentCount, weights, boxColors]);
+
+    // Every group, each once (the ribbons share the boxes' targets)
+    const morphGroups = useMemo(() => [particles.green, particles.yellow, ...Object.values(ornamentGroups)], [particles, ornamentGroups]);
+
+    // New messages and formations (including every edit of a preview) go into
+    // their own layout, leaving the rest of the buffers alone
+    useLayoutEffect(() => setMorphLayout(morphGroups, 'text', textPositions), [morphGroups, textPositions]);
+    useLayoutEffect(() => setMorphLayout(morphGroups, 'love', loveTextPositions), [morphGroups, loveTextPositions]);
+    // Without a formation, FORMATION mode falls back to the scatter
+    useLayoutEffect(() => setMorphLayout(morphGroups, 'formation', formationPositions), [morphGroups, formationPositions]);
+    useLayoutEffect(() => {
+        setMorphLayout([particles.green, particles.yellow], 'mosaic', photoMosaic?.positions ?? null);
+        // Grown or shrunk so every tile is the same size whatever the particle
+        setMorphMosaic(particles.green, photoMosaic?.colors ?? null, photoMosaic ? photoMosaic.tileSize / GREEN_PARTICLE_SIZE : 1);
+        setMorphMosaic(particles.yellow, photoMosaic?.colors ?? null, photoMosaic ? photoMosaic.tileSize / YELLOW_PARTICLE_SIZE : 1);
+    }, [particles, photoMosaic]);
+
+    // Layout weights for the shaders; ornaments settle a little faster
+    const particleBlend = useMorphBlend(blendMode, PARTICLE_SPEED);
+    const ornamentBlend = useMorphBlend(blendMode, ORNAMENT_SPEED);
+
+    // New digits ease in from the last; rebuilt instances start over from the scatter
+    useEffect(() => {
+        if (!countdownFormation) return;
+        retargetMorph(particleBlend, [particles.green, particles.yellow], countdownFormation.positions);
+        retargetMorph(ornamentBlend, Object.values(ornamentGroups), countdownFormation.positions);
+    }, [countdownFormation, particles, ornamentGroups, particleBlend, ornamentBlend]);
 
     const groupRef = useRef<THREE.Group>(null);
+    // Extra spin from circle gestures: a kick of speed that decays
+    const spinVelocity = useRef(0);
+    const spinAngle = useRef(0);
+    const lastMotionId = useRef<number | null>(null);
 
     useFrame((state, delta) => {
+        // Re-render only when the text or phase changes, about once a second
+        const lastFrame = countdownRef.current;
+        const frame = isCountdown ? getCountdownFrame(clock(), countdownTarget) : null;
+        if (frame?.message !== lastFrame?.message || frame?.phase !== lastFrame?.phase) {
+            if (frame?.phase === 'burst' && lastFrame?.phase === 'final') playNewYearChimes();
+            countdownRef.current = frame;
+            setCountdown(frame);
+        }
+
         if (!groupRef.current) return;
+
+        const motion = useStore.getState().handData.motion;
+        if (motion && motion.id !== lastMotionId.current) {
+            lastMotionId.current = motion.id;
+            if (motion.type === MotionGesture.CIRCLE) spinVelocity.current += motion.clockwise ? CIRCLE_SPIN : -CIRCLE_SPIN;
+        }
+        spinVelocity.current *= Math.exp(-delta * 1.5);
+        spinAngle.current += spinVelocity.current * delta;
+
         if (mode === AppMode.TREE) {
-            groupRef.current.rotation.y = state.clock.elapsedTime * 0.15;
-        } else if (mode === AppMode.TEXT || mode === AppMode.LOVE) {
+            groupRef.current.rotation.y = state.clock.elapsedTime * 0.15 + spinAngle.current;
+        } else if (mode === AppMode.SCATTER) {
+            groupRef.current.rotation.y += spinVelocity.current * delta;
+        } else if (mode === AppMode.TEXT || mode === AppMode.LOVE || mode === AppMode.FORMATION || mode === AppMode.MOSAIC || isCountdown) {
             groupRef.current.rotation.y = Math.sin(state.clock.elapsedTime * 0.5) * 0.1;
         }
     });
@@ -415,44 +463,35 @@ export const ChristmasTree: React.FC = () => {
     return (
         <group ref={groupRef}>
             {/* --- Green Particles --- */}
-            <Instances range={greenParticles.length} geometry={particleGreenGeo}>
+            <MorphInstances targets={particles.green} geometry={particleGreenGeo} uniforms={particleBlend}>
                 <meshStandardMaterial 
-                    color="#22c55e" 
-                    emissive="#15803d"
+                    color={particleConfig.greenColor} 
+                    emissive={particleConfig.greenEmissive}
                     emissiveIntensity={3}
                     toneMapped={false}
                 />
-                {greenParticles.map((data, i) => (
-                    <TransitionParticle key={`g-${i}`} data={data} mode={mode} />
-                ))}
-            </Instances>
+            </MorphInstances>
 
             {/* --- Yellow Particles --- */}
-            <Instances range={yellowParticles.length} geometry={particleYellowGeo}>
+            <MorphInstances targets={particles.yellow} geometry={particleYellowGeo} uniforms={particleBlend}>
                 <meshStandardMaterial 
-                    color="#facc15" 
-                    emissive="#eab308"
+                    color={particleConfig.yellowColor} 
+                    emissive={particleConfig.yellowEmissive}
                     emissiveIntensity={4}
                     toneMapped={false}
                 />
-                {yellowParticles.map((data, i) => (
-                    <TransitionParticle key={`y-${i}`} data={data} mode={mode} />
-                ))}
-            </Instances>
+            </MorphInstances>
 
             {/* --- Gift Boxes (Rounded with Ribbons) --- */}
             {/* 1. The Box */}
-            <Instances range={ornamentGroups.boxes.length} geometry={boxGeometry}>
+            <MorphInstances targets={ornamentGroups.boxes} geometry={boxGeometry} uniforms={ornamentBlend}>
                  <meshStandardMaterial 
                     metalness={0.1} 
                     roughness={0.8} // Matte paper look
                 />
-                {ornamentGroups.boxes.map((data, i) => (
-                     <TransitionInstance key={`b-${i}`} data={data} mode={mode} />
-                ))}
-            </Instances>
+            </MorphInstances>
             {/* 2. The Ribbon (Reusing Box positions) */}
-            <Instances range={ornamentGroups.boxes.length} geometry={ribbonGeometry}>
+            <MorphInstances targets={ornamentGroups.boxes} geometry={ribbonGeometry} uniforms={ornamentBlend}>
                 <meshStandardMaterial 
                     color="#ffffff" 
                     metalness={0.9} 
@@ -460,40 +499,31 @@ export const ChristmasTree: React.FC = () => {
                     emissive="#ffffff"
                     emissiveIntensity={0.2}
                 />
-                 {ornamentGroups.boxes.map((data, i) => (
-                     <TransitionInstance key={`br-${i}`} data={data} mode={mode} />
-                ))}
-            </Instances>
+            </MorphInstances>
 
 
             {/* --- Sphere Ornaments (High Gloss + Caps) --- */}
             {/* 1. The Sphere */}
-            <Instances range={ornamentGroups.spheres.length} geometry={sphereGeo}>
+            <MorphInstances targets={ornamentGroups.spheres} geometry={sphereGeo} uniforms={ornamentBlend}>
                 <meshStandardMaterial 
                     metalness={1.0} 
                     roughness={0.0} 
                     envMapIntensity={2.5}
                     color="#fbbf24"
                 />
-                {ornamentGroups.spheres.map((data, i) => (
-                     <TransitionInstance key={`s-${i}`} data={data} mode={mode} />
-                ))}
-            </Instances>
+            </MorphInstances>
             {/* 2. The Cap */}
-            <Instances range={ornamentGroups.spheres.length} geometry={baubleCapGeometry}>
+            <MorphInstances targets={ornamentGroups.spheres} geometry={baubleCapGeometry} uniforms={ornamentBlend}>
                  <meshStandardMaterial 
                     color="#d4d4d8"
                     metalness={1.0} 
                     roughness={0.3} 
                 />
-                {ornamentGroups.spheres.map((data, i) => (
-                     <TransitionInstance key={`sc-${i}`} data={data} mode={mode} />
-                ))}
-            </Instances>
+            </MorphInstances>
 
 
             {/* --- Realistic Bells (Lathe Geometry) --- */}
-            <Instances range={ornamentGroups.bells.length} geometry={bellGeometry}>
+            <MorphInstances targets={ornamentGroups.bells} geometry={bellGeometry} uniforms={ornamentBlend}>
                 <meshStandardMaterial 
                     metalness={0.9} 
                     roughness={0.15} 
@@ -501,13 +531,10 @@ export const ChristmasTree: React.FC = () => {
                     envMapIntensity={2.0}
                     side={THREE.DoubleSide}
                 />
-                {ornamentGroups.bells.map((data, i) => (
-                     <TransitionInstance key={`bell-${i}`} data={data} mode={mode} />
-                ))}
-            </Instances>
+            </MorphInstances>
 
             {/* --- Realistic Candy Canes (Striped Tubes) --- */}
-            <Instances range={ornamentGroups.canes.length} geometry={caneGeometry}>
+            <MorphInstances targets={ornamentGroups.canes} geometry={caneGeometry} uniforms={ornamentBlend}>
                 <meshPhysicalMaterial 
                     map={stripedTexture}
                     clearcoat={1.0}
@@ -516,136 +543,106 @@ export const ChristmasTree: React.FC = () => {
                     roughness={0.2}
                     color="#ffffff" // Base color white, texture adds red
                 />
-                {ornamentGroups.canes.map((data, i) => (
-                     <TransitionInstance key={`c-${i}`} data={data} mode={mode} />
-                ))}
-            </Instances>
+            </MorphInstances>
 
              {/* --- Stockings (Thicker Felt) --- */}
-             <Instances range={ornamentGroups.stockings.length} geometry={stockingExtrudeGeo}>
+             <MorphInstances targets={ornamentGroups.stockings} geometry={stockingExtrudeGeo} uniforms={ornamentBlend}>
                 <meshStandardMaterial 
                     metalness={0.0} 
                     roughness={1.0} // Fabric look
                     color="#ef4444"
                 />
-                {ornamentGroups.stockings.map((data, i) => (
-                     <TransitionInstance key={`stock-${i}`} data={data} mode={mode} />
-                ))}
-            </Instances>
+            </MorphInstances>
 
             {/* --- Pinecones --- */}
-            <Instances range={ornamentGroups.pinecones.length} geometry={pineConeGeo}>
+            <MorphInstances targets={ornamentGroups.pinecones} geometry={pineConeGeo} uniforms={ornamentBlend}>
                 <meshStandardMaterial 
                     metalness={0.1} 
                     roughness={0.9} 
                     color="#92400e" // Darker brown
                     flatShading
                 />
-                {ornamentGroups.pinecones.map((data, i) => (
-                     <TransitionInstance key={`pine-${i}`} data={data} mode={mode} />
-                ))}
-            </Instances>
-
-            <StarSystem mode={mode} />
+            </MorphInstances>
+
+            <StarSystem
+                mode={blendMode}
+                seed={sceneSeed}
+                treeHeight={tree.height}
+                textFormation={textFormation}
+                loveFormation={loveFormation}
+                formationTop={imageFormation?.top ?? null}
+                countdownTop={countdownFormation && countdownFormation.letters.length > 0 ? Math.max(...countdownFormation.letters.map(letter => letter.top)) : null}
+            />
         </group>
     );
 };
 
-// Reusable component for particles movement
-const TransitionParticle: React.FC<{data: any, mode: AppMode}> = ({data, mode}) => {
-    const ref = useRef<any>(null);
-    useFrame((state, delta) => {
-        if (!ref.current) return;
-        
-        let target;
-        if (mode === AppMode.TREE) target = data.treePos;
-        else if (mode === AppMode.TEXT) target = data.textPos;
-        else if (mode === AppMode.LOVE) target = data.lovePos;
-        else target = data.scatterPos;
-        
-        // Smooth lerp
-        // Optimize: Make scattering faster for an "explosion" feel from static text
-        const lerpSpeed = mode === AppMode.SCATTER ? 4.0 : 2.5;
-        ref.current.position.lerp(target, delta * lerpSpeed);
-        
-        // Add subtle noise/twinkle movement
-        if (mode !== AppMode.TREE) {
-            ref.current.position.y += Math.sin(state.clock.elapsedTime + data.treePos.x) * 0.01;
-        }
-
-        // Twinkling effect (Scale pulsing)
-        const time = state.clock.elapsedTime;
-        // Pulse between 0.7 and 1.3 for a visible but subtle twinkle
-        const scale = 1.0 + Math.sin(time * data.twinkleSpeed + data.phase) * 0.3;
-        ref.current.scale.setScalar(scale);
-    });
-    return <Instance ref={ref} />;
-};
-
-// Reusable component for ornaments (supports color and rotation)
-const TransitionInstance: React.FC<{data: any, mode: AppMode}> = ({data, mode}) => {
-    const ref = useRef<any>(null);
-    // Random initial rotation
-    const randRot = useMemo(() => new THREE.Euler(Math.random()*Math.PI, Math.random()*Math.PI, Math.random()*Math.PI), []);
-    
-    useLayoutEffect(() => {
-        if (ref.current) {
-            ref.current.rotation.copy(randRot);
-        }
-    }, [randRot]);
-
-    useFrame((state, delta) => {
-        if (!ref.current) return;
-        
-        let target;
-        if (mode === AppMode.TREE) target = data.treePos;
-        else if (mode === AppMode.TEXT) target = data.textPos;
-        else if (mode === AppMode.LOVE) target = data.lovePos;
-        else target = data.scatterPos;
-        
-        const lerpSpeed = mode === AppMode.SCATTER ? 4.5 : 3.0;
-        ref.current.position.lerp(target, delta * lerpSpeed);
-        
-        // Continuous rotation
-        ref.current.rotation.x += delta * 0.5;
-        ref.current.rotation.y += delta * 0.5;
-    });
-
-    // DO NOT pass rotation={randRot} here to avoid read-only assignment errors in newer Drei versions
-    return <Instance ref={ref} color={data.color} />;
-};
-
 // New StarSystem Component
-const StarSystem: React.FC<{mode: AppMode}> = ({mode}) => {
+interface StarSystemProps {
+    mode: AppMode;
+    seed: number;
+    treeHeight: number;
+    textFormation: TextFormation;
+    loveFormation: TextFormation;
+    formationTop: number | null; // Highest point of the image formation, if there is one
+    countdownTop: number | null; // Highest point of the countdown's text, while it shows
+}
+
+const StarSystem: React.FC<StarSystemProps> = ({mode, seed, treeHeight, textFormation, loveFormation, formationTop, countdownTop}) => {
     const bigStarRef = useRef<THREE.Mesh>(null);
     const starShape = useMemo(() => createStarShape(0.6, 0.3), []);
     const miniStarShape = useMemo(() => createStarShape(0.15, 0.07), []);
-    const lastSegmentRef = useRef<number>(-1);
+    const lastJumpRef = useRef<number>(-1);
     
-    // Adjusted Y to 6.5 so bottom of star (approx -0.5) touches tree top (y=6.0)
-    const treeTopPos = new THREE.Vector3(0, 6.5, 0);
+    // Raised 0.5 so bottom of star (approx -0.5) touches tree top
+    const treeTopPos = useMemo(() => new THREE.Vector3(0, treeHeight / 2 + 0.5, 0), [treeHeight]);
+
+    // Star height above the top of the letters it sits on
+    const clearance = IS_MOBILE ? 0.8 : 1.2;
+
+    // Perched just above the top-left of the message's first letter
+    const textPerch = useMemo(() => {
+        const first = textFormation.letters[0];
+        if (!first) return treeTopPos;
+        return new THREE.Vector3(first.left - (IS_MOBILE ? 0.3 : 0.5), first.top + clearance, 0.5);
+    }, [textFormation, treeTopPos, clearance]);
+
+    // Hops over each name (or each letter of a single word), there and back
+    const loveStops = useMemo(() => {
+        const anchors = loveFormation.words.length > 1 ? loveFormation.words : loveFormation.letters;
+        const stops = anchors.map(anchor => new THREE.Vector3(anchor.x, anchor.top + clearance, 0));
+        return stops.length > 0 ? stops : [treeTopPos];
+    }, [loveFormation, treeTopPos, clearance]);
+    const loveTarget = useRef(new THREE.Vector3());
+
+    // Crowning the image formation, centred above its highest point
+    const formationPerch = useMemo(() => new THREE.Vector3(0, (formationTop ?? 0) + clearance, 0.5), [formationTop, clearance]);
+    // Likewise over the countdown
+    const countdownPerch = useMemo(() => new THREE.Vector3(0, (countdownTop ?? 0) + clearance, 0.5), [countdownTop, clearance]);
 
     // Generate random scatter positions for mini stars
     const miniStarsData = useMemo(() => {
+        const random = createRandom(seed, 'mini-stars');
         const count = 60;
         const temp = [];
         for(let i = 0; i < count; i++) {
             // Scatter widely
             const scatter = new THREE.Vector3(
-                (Math.random() - 0.5) * 25,
-                (Math.random() - 0.5) * 20 + 5,
-                (Math.random() - 0.5) * 25
+                (random() - 0.5) * 25,
+                (random() - 0.5) * 20 + 5,
+                (random() - 0.5) * 25
             );
             // Slight jitter for gather position so they don't z-fight perfectly
             const gatherJitter = new THREE.Vector3(
-                (Math.random() - 0.5) * 0.2,
-                (Math.random() - 0.5) * 0.2,
-                (Math.random() - 0.5) * 0.2
+                (random() - 0.5) * 0.2,
+                (random() - 0.5) * 0.2,
+                (random() - 0.5) * 0.2
             );
-            temp.push({ scatter, gatherJitter });
+            const rotationSpeed = (random() - 0.5) * 5; // Fast rotation
+            temp.push({ scatter, gatherJitter, rotationSpeed });
         }
         return temp;
-    }, []);
+    }, [seed]);
 
     // Create shared geometry to save memory
     const miniGeo = useMemo(() => {
@@ -657,8 +654,8 @@ const StarSystem: React.FC<{mode: AppMode}> = ({mode}) => {
             const isScatter = mode === AppMode.SCATTER;
             
             // Big Star Scale Logic
-            // Shrink to 0 in scatter mode, Grow to 1 in Tree/Text mode
-            const targetScale = isScatter ? 0.0 : 1.0;
+            // Shrink to 0 in scatter mode (and out of the mosaic's way), Grow to 1 in Tree/Text mode
+            const targetScale = isScatter || mode === AppMode.MOSAIC ? 0.0 : 1.0;
             const currentScale = bigStarRef.current.scale.x;
             const nextScale = THREE.MathUtils.lerp(currentScale, targetScale, delta * 5);
             bigStarRef.current.scale.set(nextScale, nextScale, nextScale);
@@ -671,68 +668,48 @@ const StarSystem: React.FC<{mode: AppMode}> = ({mode}) => {
             let zTilt = Math.sin(state.clock.elapsedTime) * 0.1; // Default gentle sway
 
             if (mode === AppMode.TEXT) {
-                // Move to top-left of 'M' in "Merry Christmas"
-                if (IS_MOBILE) {
-                    targetPos = new THREE.Vector3(-2.5, 2.0, 0.5); 
-                } else {
-                    targetPos = new THREE.Vector3(-4.5, 3.5, 0.5);
-                }
-                lastSegmentRef.current = -1;
+                targetPos = textPerch;
+                lastJumpRef.current = -1;
+            } else if (mode === AppMode.FORMATION && formationTop !== null) {
+                targetPos = formationPerch;
+                lastJumpRef.current = -1;
+            } else if (mode === AppMode.COUNTDOWN && countdownTop !== null) {
+                targetPos = countdownPerch;
+                lastJumpRef.current = -1;
             } else if (mode === AppMode.LOVE) {
-                // Dynamic Jumping Logic for "G X X"
+                // Dynamic Jumping Logic between the names
                 const time = state.clock.elapsedTime;
                 const jumpDuration = 1.3; // Slower, more elegant
-                const totalCycle = jumpDuration * 4; // L->C, C->R, R->C, C->L
+                // Out to the last stop and back: 0->1, 1->2, 2->1, 1->0 for three
+                const segments = Math.max(1, (loveStops.length - 1) * 2);
                 
-                const progress = (time % totalCycle) / jumpDuration; 
-                const segment = Math.floor(progress); // 0, 1, 2, 3
+                const progress = time / jumpDuration; 
+                const jump = Math.floor(progress);
+                const segment = jump % segments;
                 const alpha = progress % 1; 
 
+                const last = loveStops.length - 1;
+                const from = segment < last ? segment : Math.min(segments - segment, last);
+                const to = segment < last ? segment + 1 : Math.max(from - 1, 0);
+
                 // Sound Effect Trigger
-                if (segment !== lastSegmentRef.current) {
-                    // Play sound: Higher pitch for middle jumps (Center<->Right)
-                    const pitch = (segment === 1 || segment === 2) ? 1.25 : 1.0;
+                if (jump !== lastJumpRef.current) {
+                    // Play sound: higher pitch for jumps further along the names
+                    const pitch = 1 + Math.min(from, to, 4) * 0.25;
                     playStarJumpSound(pitch);
-                    lastSegmentRef.current = segment;
+                    lastJumpRef.current = jump;
                 }
 
                 // Smoothstep for elegant horizontal ease
                 const smoothAlpha = THREE.MathUtils.smoothstep(alpha, 0, 1);
 
-                // Coordinates for G (Left), X (Center), X (Right)
-                // Assuming "G X X" text is centered around 0
-                const xOffset = IS_MOBILE ? 2.5 : 5.0; 
-                const yBase = IS_MOBILE ? 1.5 : 2.5; 
                 const jumpHeight = IS_MOBILE ? 1.5 : 2.0;
-
-                const left = new THREE.Vector3(-xOffset, yBase, 0);
-                const center = new THREE.Vector3(0, yBase, 0);
-                const right = new THREE.Vector3(xOffset, yBase, 0);
-
-                let start, end;
-                let direction = 1; // 1 for right, -1 for left
-
-                switch(segment) {
-                    case 0: // G -> X
-                        start = left; end = center; 
-                        direction = 1;
-                        break;
-                    case 1: // X -> X (Right)
-                        start = center; end = right; 
-                        direction = 1;
-                        break;
-                    case 2: // X -> X (Center)
-                        start = right; end = center; 
-                        direction = -1;
-                        break;
-                    default: // X -> G
-                        start = center; end = left; 
-                        direction = -1;
-                        break;
-                }
+                const start = loveStops[from];
+                const end = loveStops[to];
+                const direction = Math.sign(end.x - start.x); // 1 for right, -1 for left
 
                 // Interpolate X/Z
-                targetPos = new THREE.Vector3().lerpVectors(start, end, smoothAlpha);
+                targetPos = loveTarget.current.lerpVectors(start, end, smoothAlpha);
                 
                 // Add Parabolic Arc to Y (Jump)
                 // sin(0..PI) creates the arc 
@@ -746,7 +723,7 @@ const StarSystem: React.FC<{mode: AppMode}> = ({mode}) => {
                 // otherwise the smoothing will flatten the jump
                 lerpSpeed = 8;
             } else {
-                lastSegmentRef.current = -1;
+                lastJumpRef.current = -1;
             }
             
             bigStarRef.current.position.lerp(targetPos, delta * lerpSpeed);
@@ -766,7 +743,7 @@ const StarSystem: React.FC<{mode: AppMode}> = ({mode}) => {
                 color={new THREE.Color("#FCD34D")}
                 attenuation={(t) => t * t}
             >
-                <mesh ref={bigStarRef} position={[0, 6.5, 0]}>
+                <mesh ref={bigStarRef} position={treeTopPos}>
                     <extrudeGeometry args={[starShape, { depth: 0.2, bevelEnabled: true, bevelThickness: 0.05, bevelSize: 0.05, bevelSegments: 2 }]} />
                     <meshStandardMaterial 
                         color="#FCD34D" 
@@ -796,7 +773,6 @@ const StarSystem: React.FC<{mode: AppMode}> = ({mode}) => {
 
 const MiniStarWithTrail: React.FC<{data: any, mode: AppMode, treeTop: THREE.Vector3, geometry: THREE.BufferGeometry}> = ({data, mode, treeTop, geometry}) => {
     const ref = useRef<THREE.Mesh>(null);
-    const rotationSpeed = useMemo(() => (Math.random() - 0.5) * 5, []); // Fast rotation
 
     useFrame((state, delta) => {
         if(!ref.current) return;
@@ -824,8 +800,8 @@ const MiniStarWithTrail: React.FC<{data: any, mode: AppMode, treeTop: THREE.Vect
         ref.current.scale.set(ns, ns, ns);
 
         // Rotate
-        ref.current.rotation.x += delta * rotationSpeed;
-        ref.current.rotation.y += delta * rotationSpeed;
+        ref.current.rotation.x += delta * data.rotationSpeed;
+        ref.current.rotation.y += delta * data.rotationSpeed;
     });
 
     return (
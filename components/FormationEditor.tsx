@@ -0,0 +1,247 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useStore } from '../store';
+import { AppMode, Formation, FormationMask } from '../types';
+import {
+  DEFAULT_FORMATION_DEPTH,
+  DEFAULT_MASK_OPTIONS,
+  FormationImageError,
+  MAX_FORMATION_DEPTH,
+  MaskOptions,
+  createFormationMask,
+  getMaskPixels,
+  loadFormationImage,
+} from '../utils/formation';
+
+interface FormationEditorProps {
+  onClose: () => void;
+}
+
+const PREVIEW_ID = 'preview';
+
+const createFormationId = () => Math.random().toString(36).substr(2, 9);
+
+// The silhouette as the particles will see it
+const MaskPreview: React.FC<{ mask: FormationMask }> = ({ mask }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const image = ctx.createImageData(mask.width, mask.height);
+    getMaskPixels(mask).forEach(({ x, y }) => {
+      const i = (y * mask.width + x) * 4;
+      image.data.set([250, 204, 21, 255], i); // Yellow lights
+    });
+    ctx.putImageData(image, 0, 0);
+  }, [mask]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={mask.width}
+      height={mask.height}
+      className="w-full bg-black/60 border border-white/10 rounded [image-rendering:pixelated]"
+    />
+  );
+};
+
+export const FormationEditor: React.FC<FormationEditorProps> = ({ onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const formations = useStore(state => state.formations);
+  const activeFormationId = useStore(state => state.activeFormationId);
+  const mode = useStore(state => state.mode);
+  const saveFormation = useStore(state => state.saveFormation);
+  const deleteFormation = useStore(state => state.deleteFormation);
+  const showFormation = useStore(state => state.showFormation);
+  const setFormationPreview = useStore(state => state.setFormationPreview);
+
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [name, setName] = useState('');
+  const [options, setOptions] = useState<MaskOptions>(DEFAULT_MASK_OPTIONS);
+  const [depth, setDepth] = useState(DEFAULT_FORMATION_DEPTH);
+  const [error, setError] = useState<string | null>(null);
+  // Mode to go back to if the preview is abandoned
+  const modeBeforePreview = useRef<AppMode | null>(null);
+
+  const traced = useMemo(() => {
+    if (!image) return { mask: null, error: null };
+    try {
+      return { mask: createFormationMask(image, options), error: null };
+    } catch (e) {
+      return { mask: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [image, options]);
+  const { mask } = traced;
+  const isEmpty = useMemo(() => !!mask && getMaskPixels(mask).length === 0, [mask]);
+
+  // The scene morphs into the draft as it is tuned
+  useEffect(() => {
+    if (!mask || isEmpty) {
+      setFormationPreview(null);
+      return;
+    }
+    setFormationPreview({ id: PREVIEW_ID, name: PREVIEW_ID, mask, depth });
+    const { mode: currentMode, setMode } = useStore.getState();
+    if (modeBeforePreview.current === null) {
+      modeBeforePreview.current = currentMode;
+      setMode(AppMode.FORMATION);
+    }
+  }, [mask, isEmpty, depth, setFormationPreview]);
+
+  const endPreview = () => {
+    setFormationPreview(null);
+    const { mode: currentMode, setMode } = useStore.getState();
+    if (modeBeforePreview.current !== null && currentMode === AppMode.FORMATION) {
+      setMode(modeBeforePreview.current);
+    }
+    modeBeforePreview.current = null;
+  };
+
+  // Closing the panel abandons an unsaved draft
+  useEffect(() => () => endPreview(), []);
+
+  const resetDraft = () => {
+    setImage(null);
+    setName('');
+    setOptions(DEFAULT_MASK_OPTIONS);
+    setDepth(DEFAULT_FORMATION_DEPTH);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      setImage(await loadFormationImage(file));
+      setName(file.name.replace(/\.[^.]+$/, '') || 'Formation');
+    } catch (e) {
+      setError(e instanceof FormationImageError ? e.message : 'This image could not be loaded.');
+    }
+  };
+
+  const handleSave = () => {
+    if (!mask || isEmpty) return;
+    const formation: Formation = { id: createFormationId(), name: name.trim() || 'Formation', mask, depth };
+    modeBeforePreview.current = null;
+    setFormationPreview(null);
+    saveFormation(formation);
+    resetDraft();
+  };
+
+  const handleCancel = () => {
+    endPreview();
+    resetDraft();
+  };
+
+  const buttonClass = 'text-[10px] md:text-xs px-2 py-1 rounded border border-white/20 hover:bg-white/10 transition-colors disabled:opacity-40';
+
+  return (
+    <div className="absolute top-0 right-0 h-full w-full sm:w-80 z-30 pointer-events-auto bg-black/80 backdrop-blur-md border-l border-white/20 text-white flex flex-col shadow-[0_0_30px_rgba(0,0,0,0.6)]">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+        <h2 className="font-['Mountains_of_Christmas'] text-2xl text-yellow-400">Formations</h2>
+        <button onClick={onClose} className="text-white/70 hover:text-white text-sm">✕</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-3">
+        {formations.length === 0 ? (
+          <p className="text-xs text-white/60">Upload a logo, a silhouette or a drawing and the tree will take its shape.</p>
+        ) : (
+          <ul className="divide-y divide-white/10 border border-white/10 rounded">
+            {formations.map(formation => {
+              const isShown = mode === AppMode.FORMATION && formation.id === activeFormationId;
+              return (
+                <li key={formation.id} className="flex items-center gap-2 px-2 py-1.5 text-xs">
+                  <span className={`flex-1 truncate ${isShown ? 'text-yellow-400' : 'text-white/80'}`}>{formation.name}</span>
+                  <button onClick={() => showFormation(formation.id)} className={buttonClass}>Show</button>
+                  <button
+                    onClick={() => deleteFormation(formation.id)}
+                    className="text-red-300/80 hover:text-red-300 text-[10px] md:text-xs underline underline-offset-2"
+                  >
+                    Delete
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <input type="file" ref={fileInputRef} onChange={handleFile} className="hidden" accept="image/png,image/svg+xml,image/*" />
+        {!image && (
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>+ New from image (PNG or SVG)</button>
+        )}
+
+        {image && mask && (
+          <>
+            <MaskPreview mask={mask} />
+            {isEmpty && (
+              <p className="text-[10px] md:text-xs text-red-300">Nothing in this image passes the threshold. Try moving it or inverting.</p>
+            )}
+
+            <label className="flex flex-col gap-1 text-xs text-white/70">
+              Name
+              <input
+                value={name}
+                onChange={e => setName(e.target.value)}
+                maxLength={40}
+                className="bg-white/10 border border-white/20 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-yellow-400"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-white/70">
+              <span className="flex justify-between">
+                Threshold
+                <span className="font-mono text-yellow-400">{options.threshold}</span>
+              </span>
+              <input
+                type="range"
+                min={0.05}
+                max={0.95}
+                step={0.05}
+                value={options.threshold}
+                onChange={e => setOptions({ ...options, threshold: parseFloat(e.target.value) })}
+                className="accent-yellow-400"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-xs text-white/70">
+              <input
+                type="checkbox"
+                checked={options.invert}
+                onChange={e => setOptions({ ...options, invert: e.target.checked })}
+                className="accent-yellow-400"
+              />
+              Invert (use the background)
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-white/70">
+              <span className="flex justify-between">
+                3D depth
+                <span className="font-mono text-yellow-400">{depth}</span>
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={MAX_FORMATION_DEPTH}
+                step={0.1}
+                value={depth}
+                onChange={e => setDepth(parseFloat(e.target.value))}
+                className="accent-yellow-400"
+              />
+            </label>
+          </>
+        )}
+
+        {(error ?? traced.error) && (
+          <p className="text-[10px] md:text-xs text-red-300 bg-red-900/40 border border-red-500/40 rounded p-2">{error ?? traced.error}</p>
+        )}
+      </div>
+
+      {image && (
+        <div className="flex flex-wrap gap-2 p-4 border-t border-white/10">
+          <button onClick={handleSave} disabled={!mask || isEmpty} className={buttonClass}>Save formation</button>
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>Other image</button>
+          <button onClick={handleCancel} className={buttonClass}>Cancel</button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,87 +1,257 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { FilesetResolver, HandLandmarker, DrawingUtils } from '@mediapipe/tasks-vision';
-import { useStore } from '../store';
-import { AppMode, GestureType } from '../types';
-
-// Simple Linear Interpolation
-const lerp = (start: number, end: number, t: number) => start * (1 - t) + end * t;
-
-// Singleton promise to prevent double-initialization in StrictMode
-let landmarkerPromise: Promise<HandLandmarker> | null = null;
-
-const initializeHandLandmarker = async () => {
-    if (landmarkerPromise) return landmarkerPromise;
-
-    landmarkerPromise = (async () => {
-        try {
-            const vision = await FilesetResolver.forVisionTasks(
-                "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.10/wasm"
-            );
-            return await HandLandmarker.createFromOptions(vision, {
-                baseOptions: {
-                    modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-                    delegate: "GPU"
-                },
-                runningMode: "VIDEO",
-                numHands: 1,
-                minHandDetectionConfidence: 0.6,
-                minHandPresenceConfidence: 0.6,
-                minTrackingConfidence: 0.6
-            });
-        } catch (error) {
-            // Reset promise on failure so it can be retried
-            landmarkerPromise = null;
-            throw error;
-        }
-    })();
-    return landmarkerPromise;
+import { HandLandmarker, DrawingUtils } from '@mediapipe/tasks-vision';
+import { selectGestureThresholds, useStore } from '../store';
+import { BimanualData, CameraResolution, GestureType, HandDetection, HeadPosition, Landmark, TrackingStatus } from '../types';
+import {
+  HandRecorder,
+  HandRecording,
+  HandRecordingError,
+  RECORDING_EXTENSION,
+  createHandRecorder,
+  parseHandRecording,
+} from '../services/handRecording';
+import { createGestureDispatcher, runMotionAction } from '../services/gestureActions';
+import { publishHandFrame } from '../services/handFrames';
+import { publishGestureEvent } from '../services/gestureEvents';
+import { dispatchInput } from '../services/input';
+import { CameraError, FRAME_RATES, RESOLUTIONS, listCameras, openCamera } from '../services/camera';
+import { DetectionBackend, DetectionResult, HandDetector, createHandDetector } from '../services/handDetection';
+import { Delegate } from '../services/handLandmarker';
+import { resolveGestureClassifier } from '../utils/gestureClassifier';
+import { createHandPipeline } from '../utils/handPipeline';
+
+const STATUS_LABELS: Record<TrackingStatus, string> = {
+  'initializing': 'STARTING',
+  'loading-model': 'LOADING MODEL',
+  'model-error': 'MODEL FAILED',
+  'starting-camera': 'STARTING CAMERA',
+  'denied': 'CAMERA BLOCKED',
+  'no-device': 'NO CAMERA',
+  'error': 'CAMERA ERROR',
+  'tracking': 'GESTURE LINKED',
+  'hand-lost': 'SHOW YOUR HAND',
+};
+
+const TRACKING_FAILURES: TrackingStatus[] = ['model-error', 'denied', 'no-device', 'error'];
+
+const selectClass = 'bg-black/60 border border-white/20 rounded px-1 py-0.5 text-white focus:border-yellow-400 focus:outline-none';
+
+// Marks the tracked head between the eyes; the preview is mirrored by CSS
+const drawHead = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, head: HeadPosition) => {
+    ctx.beginPath();
+    ctx.arc((1 - head.x) * canvas.width, head.y * canvas.height, head.size * canvas.width * 0.5, 0, Math.PI * 2);
+    ctx.strokeStyle = "rgba(96, 165, 250, 0.6)";
+    ctx.lineWidth = 2;
+    ctx.stroke();
+};
+
+// Older results than this would move the cursor to where the hand no longer is
+const MAX_RESULT_AGE = 1000;
+// How often the latency readout refreshes
+const LATENCY_REPORT_INTERVAL = 500;
+
+// Skeleton overlay for the preview canvas
+const drawHand = (ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement, landmarks: Landmark[]) => {
+    const drawingUtils = new DrawingUtils(ctx);
+    
+    drawingUtils.drawConnectors(landmarks, HandLandmarker.HAND_CONNECTIONS, { color: "rgba(255, 215, 0, 0.4)", lineWidth: 2 });
+    drawingUtils.drawLandmarks(landmarks, { color: "rgba(255, 255, 255, 0.8)", lineWidth: 1, radius: 2 });
+
+    const indexTip = landmarks[8];
+    const thumbTip = landmarks[4];
+    
+    ctx.beginPath();
+    ctx.moveTo(thumbTip.x * canvas.width, thumbTip.y * canvas.height);
+    ctx.lineTo(indexTip.x * canvas.width, indexTip.y * canvas.height);
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.2)";
+    ctx.stroke();
+
+    ctx.beginPath();
+    ctx.arc(indexTip.x * canvas.width, indexTip.y * canvas.height, 5, 0, 2 * Math.PI);
+    ctx.fillStyle = "#FFD700";
+    ctx.fill();
 };
 
 export const GestureDetector: React.FC = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [landmarker, setLandmarker] = useState<HandLandmarker | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [detector, setDetector] = useState<HandDetector | null>(null);
+  const [detectionStats, setDetectionStats] = useState<{ backend: DetectionBackend; delegate: Delegate; latency: number } | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [replaying, setReplaying] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [isCameraMenuOpen, setIsCameraMenuOpen] = useState(false);
   const updateHandData = useStore(state => state.updateHandData);
-  const setMode = useStore(state => state.setMode);
-
-  // Coordinate smoothing refs
-  const smoothedX = useRef(0.5);
-  const smoothedY = useRef(0.5);
-  const gestureHistory = useRef<string[]>([]);
-  const lastGestureTime = useRef<number>(0);
+  const setCursor = useStore(state => state.setCursor);
+  const cameraSettings = useStore(state => state.cameraSettings);
+  const updateCameraSettings = useStore(state => state.updateCameraSettings);
+  const trackingStatus = useStore(state => state.trackingStatus);
+  const setTrackingStatus = useStore(state => state.setTrackingStatus);
+  const headTracking = useStore(state => state.headTracking);
+  const setHeadTracking = useStore(state => state.setHeadTracking);
+  const setHeadPosition = useStore(state => state.setHeadPosition);
+  const gestureClassifierId = useStore(state => state.gestureClassifierId);
+  const gestureThresholds = useStore(selectGestureThresholds);
+
+  const pipeline = useRef(createHandPipeline());
+  const recorder = useRef<HandRecorder | null>(null);
+  const replayRequestRef = useRef<number>(0);
+  // Read inside the camera loop, which would otherwise see a stale state value
+  const isReplaying = useRef(false);
+  const dispatcher = useRef(createGestureDispatcher());
+  const motionCount = useRef(0);
+  const lastBimanual = useRef<BimanualData | null>(null); // Previous grab, to turn hand motion into deltas
   const requestRef = useRef<number>(0);
   const lastVideoTime = useRef<number>(-1);
+  const lastResultTime = useRef<number>(-1);
+  const latency = useRef({ average: 0, reportedAt: 0 });
+  // Results arrive asynchronously from the worker; always hand them to this render's handler
+  const resultHandler = useRef<(result: DetectionResult) => void>(() => {});
+
+  // Classify with the chosen classifier (and the active calibration profile)
+  useEffect(() => {
+    pipeline.current.setClassifier(resolveGestureClassifier(gestureClassifierId, gestureThresholds));
+  }, [gestureClassifierId, gestureThresholds]);
 
-  // Initialize MediaPipe
+  // Initialize MediaPipe (in a worker when possible)
   useEffect(() => {
     let mounted = true;
+    let created: HandDetector | null = null;
     
     const init = async (attempt = 1) => {
       // Delay helps with StrictMode mounting issues and network racing
       await new Promise(resolve => setTimeout(resolve, 500));
       
       if (!mounted) return;
+      setTrackingStatus('loading-model');
 
       try {
-        const handLandmarker = await initializeHandLandmarker();
+        const handDetector = await createHandDetector(result => resultHandler.current(result));
         if (mounted) {
-            setLandmarker(handLandmarker);
+            console.info(`Hand detection running on the ${handDetector.backend === 'worker' ? 'worker' : 'main thread'} with the ${handDetector.delegate} delegate`);
+            created = handDetector;
+            setDetector(handDetector);
+        } else {
+            handDetector.close();
         }
       } catch (error) {
         console.error(`MediaPipe initialization failed (attempt ${attempt}):`, error);
         if (mounted && attempt < 3) {
             console.log(`Retrying MediaPipe initialization in ${attempt}s...`);
             setTimeout(() => init(attempt + 1), attempt * 1000);
+        } else if (mounted) {
+            // Names the asset that failed, e.g. the model on a venue's blocked network
+            setLoadError(error instanceof Error ? error.message : String(error));
+            setTrackingStatus('model-error');
         }
       }
     };
     
     init();
-    return () => { mounted = false; };
+    return () => {
+      mounted = false;
+      created?.close();
+    };
   }, []);
 
+  // Face tracking costs a second model per frame, so it only runs for the parallax camera
+  useEffect(() => {
+    detector?.setFaceTracking(headTracking);
+    if (!headTracking) setHeadPosition(null);
+  }, [detector, headTracking, setHeadPosition]);
+
+  // Shared by the live camera and replayed recordings
+  const handleDetections = (detections: HandDetection[], ctx: CanvasRenderingContext2D, canvas: HTMLCanvasElement) => {
+    detections.forEach(({ landmarks }) => drawHand(ctx, canvas, landmarks));
+    publishHandFrame(detections);
+
+    const { hands, primary, bimanual, motions, events } = pipeline.current.process(detections, performance.now());
+
+    // Both hands move during a two-handed grab; that is not a swipe
+    const motion = !bimanual?.active && motions.length > 0
+      ? { ...motions[0], id: ++motionCount.current, time: Date.now() }
+      : null;
+    if (motion) runMotionAction(motion);
+
+    // Two-handed grab: spread hands to zoom in, turn them like a steering wheel to orbit
+    const grab = bimanual?.active ? bimanual : null;
+    const lastGrab = lastBimanual.current;
+    if (grab && lastGrab && grab.distance > 0.01 && lastGrab.distance > 0.01) {
+      // Wrap so crossing ±PI doesn't spin the camera all the way round
+      let turn = grab.angle - lastGrab.angle;
+      if (turn > Math.PI) turn -= Math.PI * 2;
+      if (turn < -Math.PI) turn += Math.PI * 2;
+      dispatchInput({ type: 'camera', zoom: lastGrab.distance / grab.distance, orbit: -turn * 1.5 });
+    }
+    lastBimanual.current = grab;
+
+    events.forEach(event => {
+      publishGestureEvent(event);
+      // Only the primary hand's gestures act, and not during a two-handed grab
+      if (grab || event.handedness !== primary?.handedness || event.type !== 'start') return;
+      dispatcher.current.handle(event, Date.now());
+      // Pinch opens the photo nearest the hand, an open hand closes it
+      if (event.gesture === GestureType.PINCH) dispatchInput({ type: 'select' });
+      else if (event.gesture === GestureType.OPEN_HAND) dispatchInput({ type: 'back' });
+    });
+
+    if (primary) {
+      if (!grab) setCursor({ x: primary.x, y: primary.y, source: 'hands' });
+
+      updateHandData({ 
+          gesture: bimanual?.active ? GestureType.NONE : primary.gesture, 
+          x: primary.x, 
+          y: primary.y,
+          pinch: primary.pinch,
+          confidence: primary.confidence,
+          hands,
+          bimanual,
+          ...(motion && { motion }),
+      });
+
+    } else {
+      updateHandData({ gesture: GestureType.NONE, pinch: 0, confidence: 0, hands: [], bimanual: null });
+    }
+  };
+
+  resultHandler.current = ({ detections, head, frameTime, latency: resultLatency }: DetectionResult) => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!video || !canvas || !ctx) return;
+
+    // A replay owns the pipeline and the preview until it finishes. Late or
+    // out-of-order results would drag the smoothed cursor backwards.
+    if (isReplaying.current || frameTime <= lastResultTime.current) return;
+    if (performance.now() - frameTime > MAX_RESULT_AGE) return;
+    lastResultTime.current = frameTime;
+
+    latency.current.average = latency.current.average === 0 ? resultLatency : latency.current.average * 0.9 + resultLatency * 0.1;
+    if (frameTime - latency.current.reportedAt > LATENCY_REPORT_INTERVAL) {
+      latency.current.reportedAt = frameTime;
+      setDetectionStats({ backend: detector?.backend ?? 'main', delegate: detector?.delegate ?? 'GPU', latency: Math.round(latency.current.average) });
+    }
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+
+    setTrackingStatus(detections.length > 0 ? 'tracking' : 'hand-lost');
+    recorder.current?.push(detections);
+    handleDetections(detections, ctx, canvas);
+
+    // Undefined until the face landmarker is ready
+    if (head !== undefined) {
+      setHeadPosition(head);
+      if (head) drawHead(ctx, canvas, head);
+    }
+  };
+
   const predictWebcam = () => {
-    if (!landmarker || !videoRef.current || !canvasRef.current) return;
+    if (!detector || !videoRef.current || !canvasRef.current) return;
     
     const video = videoRef.current;
     
@@ -91,184 +261,154 @@ export const GestureDetector: React.FC = () => {
         return;
     }
 
+    // A busy detector skips this frame; the next animation frame offers a fresher one
+    if (!isReplaying.current && video.currentTime !== lastVideoTime.current) {
+      if (detector.submit(video, performance.now())) lastVideoTime.current = video.currentTime;
+    }
+    requestRef.current = requestAnimationFrame(predictWebcam);
+  };
+
+  const toggleRecording = () => {
+    if (!recorder.current) {
+      recorder.current = createHandRecorder();
+      setRecording(true);
+      return;
+    }
+
+    const session = recorder.current.finish();
+    recorder.current = null;
+    setRecording(false);
+    if (session.frames.length === 0) return;
+
+    const blob = new Blob([JSON.stringify(session)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `hands-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}${RECORDING_EXTENSION}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const stopReplay = () => {
+    cancelAnimationFrame(replayRequestRef.current);
+    isReplaying.current = false;
+    setReplaying(false);
+    pipeline.current.reset(performance.now()).forEach(publishGestureEvent);
+    dispatcher.current.reset();
+    updateHandData({ gesture: GestureType.NONE, pinch: 0, confidence: 0, hands: [], bimanual: null });
+  };
+
+  // Feeds recorded frames through the pipeline on their original timeline
+  const startReplay = (session: HandRecording) => {
     const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    
-    if (video.currentTime !== lastVideoTime.current) {
-      lastVideoTime.current = video.currentTime;
-      const results = landmarker.detectForVideo(video, performance.now());
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
 
-      if (ctx) {
+    isReplaying.current = true;
+    setReplaying(true);
+    setReplayError(null);
+    pipeline.current.reset(performance.now()).forEach(publishGestureEvent);
+
+    const frames = [...session.frames].sort((a, b) => a.t - b.t);
+    const startedAt = performance.now();
+    let next = 0;
+
+    const step = () => {
+      const elapsed = performance.now() - startedAt;
+      let frame = null;
+      while (next < frames.length && frames[next].t <= elapsed) frame = frames[next++];
+
+      if (frame) {
         ctx.clearRect(0, 0, canvas.width, canvas.height);
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        
-        // Visual feedback
-        if (results.landmarks && results.landmarks.length > 0) {
-          const landmarks = results.landmarks[0];
-          const drawingUtils = new DrawingUtils(ctx);
-          
-          drawingUtils.drawConnectors(landmarks, HandLandmarker.HAND_CONNECTIONS, { color: "rgba(255, 215, 0, 0.4)", lineWidth: 2 });
-          drawingUtils.drawLandmarks(landmarks, { color: "rgba(255, 255, 255, 0.8)", lineWidth: 1, radius: 2 });
-
-          const indexTip = landmarks[8];
-          const thumbTip = landmarks[4];
-          
-          ctx.beginPath();
-          ctx.moveTo(thumbTip.x * canvas.width, thumbTip.y * canvas.height);
-          ctx.lineTo(indexTip.x * canvas.width, indexTip.y * canvas.height);
-          ctx.strokeStyle = "rgba(255, 255, 255, 0.2)";
-          ctx.stroke();
-
-          ctx.beginPath();
-          ctx.arc(indexTip.x * canvas.width, indexTip.y * canvas.height, 5, 0, 2 * Math.PI);
-          ctx.fillStyle = "#FFD700";
-          ctx.fill();
-
-          // Logic
-          const wrist = landmarks[0];
-          const middleTip = landmarks[12];
-          const ringTip = landmarks[16];
-          const pinkyTip = landmarks[20];
-          
-          const middleFingerMCP = landmarks[9];
-          const handSize = Math.hypot(middleFingerMCP.x - wrist.x, middleFingerMCP.y - wrist.y);
-
-          const pinchDist = Math.hypot(thumbTip.x - indexTip.x, thumbTip.y - indexTip.y);
-          
-          const fingers = [indexTip, middleTip, ringTip, pinkyTip];
-          const fingerDistances = fingers.map(tip => Math.hypot(tip.x - wrist.x, tip.y - wrist.y));
-          
-          const OPEN_RATIO = 1.6; 
-          const FIST_RATIO = 1.3; 
-          const PINCH_RATIO = 0.5;
-
-          const isOpen = fingerDistances.every(d => d > handSize * OPEN_RATIO);
-          const isFist = fingerDistances.every(d => d < handSize * FIST_RATIO);
-          const isPinch = pinchDist < handSize * PINCH_RATIO;
-
-          // VICTORY Logic: Index & Middle UP, Ring & Pinky DOWN
-          const indexUp = fingerDistances[0] > handSize * 1.4;
-          const middleUp = fingerDistances[1] > handSize * 1.4;
-          const ringDown = fingerDistances[2] < handSize * 1.2;
-          const pinkyDown = fingerDistances[3] < handSize * 1.2;
-          const isVictory = indexUp && middleUp && ringDown && pinkyDown;
-
-          // LOVE (ILY Sign) Logic: Thumb, Index, Pinky UP. Middle, Ring DOWN.
-          const thumbUp = Math.hypot(thumbTip.x - wrist.x, thumbTip.y - wrist.y) > handSize * 0.8; // Thumb usually shorter
-          // Re-use indexUp, ringDown, pinkyDown
-          const pinkyUp = fingerDistances[3] > handSize * 1.4;
-          const middleDown = fingerDistances[1] < handSize * 1.2;
-          
-          const isLove = thumbUp && indexUp && middleDown && ringDown && pinkyUp;
-
-          let detectedGesture = GestureType.NONE;
-
-          if (isLove) {
-            detectedGesture = GestureType.HEART;
-          } else if (isVictory) {
-            detectedGesture = GestureType.VICTORY;
-          } else if (isFist) {
-            detectedGesture = GestureType.CLOSED_FIST;
-          } else if (isPinch) {
-            detectedGesture = GestureType.PINCH;
-          } else if (isOpen) {
-            detectedGesture = GestureType.OPEN_HAND;
-          }
-
-          gestureHistory.current.push(detectedGesture);
-          if (gestureHistory.current.length > 8) gestureHistory.current.shift();
-          
-          const counts = gestureHistory.current.reduce((acc, curr) => {
-            acc[curr] = (acc[curr] || 0) + 1;
-            return acc;
-          }, {} as Record<string, number>);
-          
-          const stableGesture = Object.keys(counts).reduce((a, b) => counts[a] > counts[b] ? a : b) as GestureType;
-
-          // Access fresh mode from useStore directly to avoid stale closures in the loop
-          const currentMode = useStore.getState().mode;
-          const now = Date.now();
-
-          if (now - lastGestureTime.current > 600) { 
-              if (stableGesture === GestureType.HEART && currentMode !== AppMode.LOVE) {
-                  setMode(AppMode.LOVE);
-                  lastGestureTime.current = now;
-              } else if (stableGesture === GestureType.VICTORY && currentMode !== AppMode.TEXT) {
-                  setMode(AppMode.TEXT);
-                  lastGestureTime.current = now;
-              } else if (stableGesture === GestureType.CLOSED_FIST && currentMode !== AppMode.TREE) {
-                  setMode(AppMode.TREE);
-                  lastGestureTime.current = now;
-              } else if (stableGesture === GestureType.OPEN_HAND && currentMode !== AppMode.SCATTER) {
-                  // Allow transition to SCATTER from ANY mode (TEXT, TREE, LOVE) except when already SCATTER
-                  setMode(AppMode.SCATTER);
-                  lastGestureTime.current = now;
-              }
-          }
-
-          const rawX = 1 - wrist.x;
-          const rawY = wrist.y;
-
-          const distMoved = Math.hypot(rawX - smoothedX.current, rawY - smoothedY.current);
-          const lerpFactor = distMoved > 0.05 ? 0.3 : 0.1; 
-
-          smoothedX.current = lerp(smoothedX.current, rawX, lerpFactor);
-          smoothedY.current = lerp(smoothedY.current, rawY, lerpFactor);
-
-          updateHandData({ 
-              gesture: stableGesture, 
-              x: smoothedX.current, 
-              y: smoothedY.current 
-          });
+        canvas.width = 640;
+        canvas.height = 480;
+        handleDetections(frame.hands, ctx, canvas);
+      }
 
-        } else {
-          updateHandData({ gesture: GestureType.NONE });
-        }
+      if (next < frames.length) {
+        replayRequestRef.current = requestAnimationFrame(step);
+      } else {
+        stopReplay();
       }
+    };
+    replayRequestRef.current = requestAnimationFrame(step);
+  };
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      startReplay(parseHandRecording(await file.text()));
+    } catch (error) {
+      console.error('Hand recording replay failed:', error);
+      setReplayError(error instanceof HandRecordingError ? error.message : 'Could not read that hand recording.');
     }
-    requestRef.current = requestAnimationFrame(predictWebcam);
   };
 
-  // Start Camera
+  useEffect(() => () => cancelAnimationFrame(replayRequestRef.current), []);
+
+  // Start Camera (again whenever the user picks another camera or quality)
   useEffect(() => {
+    let cancelled = false;
+
     const enableCam = async () => {
-      if (videoRef.current && landmarker) {
-        try {
-          const constraints = {
-             video: {
-                width: { ideal: 640 },
-                height: { ideal: 480 },
-                facingMode: "user" // Prefer front camera on mobile
-             }
-          };
-          const stream = await navigator.mediaDevices.getUserMedia(constraints);
-          videoRef.current.srcObject = stream;
-          
-          // Explicit play ensures the video starts
-          await videoRef.current.play();
-          
-          // Start Loop explicitly
-          requestRef.current = requestAnimationFrame(predictWebcam);
-        } catch (err) {
-          console.error("Webcam error:", err);
+      if (!videoRef.current || !detector) return;
+      setTrackingStatus('starting-camera');
+      try {
+        const stream = await openCamera(cameraSettings);
+        if (cancelled || !videoRef.current) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
         }
+        videoRef.current.srcObject = stream;
+        
+        // Explicit play ensures the video starts
+        await videoRef.current.play();
+        setTrackingStatus('hand-lost');
+        // Device names are only readable once access is granted
+        listCameras().then(setCameras);
+        
+        // Start Loop explicitly
+        lastVideoTime.current = -1;
+        requestRef.current = requestAnimationFrame(predictWebcam);
+      } catch (err) {
+        console.error("Webcam error:", err);
+        if (!cancelled) setTrackingStatus(err instanceof CameraError ? err.failure : 'error');
       }
     };
 
-    if (landmarker) {
+    if (detector) {
       enableCam();
     }
 
     return () => {
+        cancelled = true;
         if (requestRef.current) cancelAnimationFrame(requestRef.current);
         if (videoRef.current && videoRef.current.srcObject) {
             const stream = videoRef.current.srcObject as MediaStream;
             stream.getTracks().forEach(track => track.stop());
+            videoRef.current.srcObject = null;
         }
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [landmarker]);
+  }, [detector, cameraSettings]);
+
+  // Keep the camera list current as devices are plugged in or removed
+  useEffect(() => {
+    listCameras().then(setCameras);
+    const handleDeviceChange = () => listCameras().then(setCameras);
+    navigator.mediaDevices?.addEventListener('devicechange', handleDeviceChange);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', handleDeviceChange);
+  }, []);
+
+  const statusLabel = replaying ? 'REPLAY' : recording ? 'RECORDING' : STATUS_LABELS[trackingStatus];
+  const statusDot = replaying
+    ? 'bg-blue-400 shadow-[0_0_10px_#60a5fa]'
+    : trackingStatus === 'tracking'
+      ? 'bg-green-400 shadow-[0_0_10px_#4ade80]'
+      : TRACKING_FAILURES.includes(trackingStatus) ? 'bg-gray-500' : 'bg-red-500 shadow-[0_0_10px_red]';
 
   return (
     <div className="absolute bottom-4 left-4 z-50 pointer-events-none opacity-90 border border-white/10 rounded-lg overflow-hidden bg-black/40 backdrop-blur-md shadow-[0_0_30px_rgba(0,0,0,0.6)]">
@@ -285,12 +425,93 @@ export const GestureDetector: React.FC = () => {
             className="absolute top-0 left-0 w-full h-full object-cover transform scale-x-[-1]" 
         />
         <div className="absolute top-2 left-2 flex flex-col gap-1">
-            <div className="w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full bg-red-500 animate-pulse shadow-[0_0_10px_red]" />
+            <div className={`w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full animate-pulse ${statusDot}`} />
         </div>
+        {detectionStats && !replaying && (
+            <div
+              className="absolute top-1 right-2 text-[7px] sm:text-[9px] font-mono text-white/60"
+              title={`Detection runs ${detectionStats.backend === 'worker' ? 'in a background worker' : 'on the main thread'}, on the ${detectionStats.delegate}`}
+            >
+              {detectionStats.backend === 'worker' ? 'WRK' : 'MAIN'} {detectionStats.delegate} {detectionStats.latency}ms
+            </div>
+        )}
         <div className="absolute bottom-0 w-full text-center text-[8px] sm:text-[10px] text-white/80 bg-black/40 py-0.5 sm:py-1 font-mono tracking-wider">
-           GESTURE LINKED
+           {statusLabel}
+        </div>
+      </div>
+      {isCameraMenuOpen && (
+        <div className="flex flex-col gap-1 p-2 w-40 sm:w-48 text-[10px] text-white/70 pointer-events-auto border-t border-white/10">
+          <select
+            value={cameraSettings.deviceId ?? ''}
+            onChange={e => updateCameraSettings({ deviceId: e.target.value || null })}
+            className={selectClass}
+          >
+            <option value="">Default camera</option>
+            {cameras.map((camera, i) => (
+              <option key={camera.deviceId || i} value={camera.deviceId}>{camera.label || `Camera ${i + 1}`}</option>
+            ))}
+          </select>
+          <div className="flex gap-1">
+            <select
+              value={cameraSettings.resolution}
+              onChange={e => updateCameraSettings({ resolution: e.target.value as CameraResolution })}
+              className={`${selectClass} flex-1`}
+            >
+              {(Object.keys(RESOLUTIONS) as CameraResolution[]).map(resolution => (
+                <option key={resolution} value={resolution}>{resolution}</option>
+              ))}
+            </select>
+            <select
+              value={cameraSettings.frameRate}
+              onChange={e => updateCameraSettings({ frameRate: parseInt(e.target.value, 10) })}
+              className={`${selectClass} flex-1`}
+            >
+              {FRAME_RATES.map(rate => <option key={rate} value={rate}>{rate} fps</option>)}
+            </select>
+          </div>
+          <label className="flex items-center gap-1.5 mt-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={headTracking}
+              onChange={e => setHeadTracking(e.target.checked)}
+              className="accent-yellow-400"
+            />
+            Head parallax
+          </label>
+          <span className="text-white/40">Lower settings track faster on slow devices. Head parallax moves the view with your head.</span>
         </div>
+      )}
+      {/* Camera settings, plus dev tools to record the landmark stream or replay one without a camera */}
+      <div className="flex justify-center gap-2 py-1 text-[10px] font-mono text-white/70 pointer-events-auto">
+        <button
+          onClick={() => setIsCameraMenuOpen(open => !open)}
+          title="Camera settings"
+          className={`hover:text-white transition-colors ${isCameraMenuOpen ? 'text-yellow-400' : ''}`}
+        >
+          ⚙ Cam
+        </button>
+        <input type="file" ref={replayInputRef} onChange={handleReplayFile} className="hidden" accept={`application/json,.json,${RECORDING_EXTENSION}`} />
+        <button
+          onClick={toggleRecording}
+          disabled={replaying || !detector}
+          className={`hidden sm:inline hover:text-white disabled:opacity-30 transition-colors ${recording ? 'text-red-400' : ''}`}
+        >
+          {recording ? '■ Stop' : '● Rec'}
+        </button>
+        <button
+          onClick={() => replaying ? stopReplay() : replayInputRef.current?.click()}
+          disabled={recording}
+          className="hidden sm:inline hover:text-white disabled:opacity-30 transition-colors"
+        >
+          {replaying ? '■ Stop replay' : '▶ Replay'}
+        </button>
       </div>
+      {loadError && !replaying && (
+        <div className="hidden sm:block max-w-48 px-2 pb-1 text-[10px] text-red-300">{loadError}</div>
+      )}
+      {replayError && (
+        <div className="hidden sm:block max-w-48 px-2 pb-1 text-[10px] text-red-300">{replayError}</div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { selectGestureThresholds, useStore } from '../store';
+import { GestureAction } from '../types';
+import { distanceClassifier, listGestureClassifiers } from '../utils/gestureClassifier';
+import { BINDABLE_GESTURES, GESTURE_ACTIONS, GESTURE_NAMES, MAX_COOLDOWN } from '../utils/gestureBindings';
+import { CalibrationWizard } from './CalibrationWizard';
+import { MatchQualityMeter } from './MatchQualityMeter';
+
+interface GestureSettingsProps {
+  onClose: () => void;
+}
+
+// Binding table: pick an action and a cooldown for every gesture. Also picks
+// the classifier and the calibration profile and hosts the calibration wizard.
+export const GestureSettings: React.FC<GestureSettingsProps> = ({ onClose }) => {
+  const gestureBindings = useStore(state => state.gestureBindings);
+  const setGestureBinding = useStore(state => state.setGestureBinding);
+  const resetGestureBindings = useStore(state => state.resetGestureBindings);
+  const gestureClassifierId = useStore(state => state.gestureClassifierId);
+  const setGestureClassifierId = useStore(state => state.setGestureClassifierId);
+  const gestureProfiles = useStore(state => state.gestureProfiles);
+  const activeGestureProfile = useStore(state => state.activeGestureProfile);
+  const selectGestureProfile = useStore(state => state.selectGestureProfile);
+  const deleteGestureProfile = useStore(state => state.deleteGestureProfile);
+  const gestureThresholds = useStore(selectGestureThresholds);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+
+  const buttonClass = 'text-[10px] md:text-xs px-2 py-1 rounded border border-white/20 hover:bg-white/10 transition-colors';
+
+  return (
+    <div className="absolute top-0 right-0 h-full w-full sm:w-80 z-30 pointer-events-auto bg-black/80 backdrop-blur-md border-l border-white/20 text-white flex flex-col shadow-[0_0_30px_rgba(0,0,0,0.6)]">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+        <h2 className="font-['Mountains_of_Christmas'] text-2xl text-yellow-400">Gestures</h2>
+        <button onClick={onClose} className="text-white/70 hover:text-white text-sm">✕</button>
+      </div>
+
+      {isCalibrating ? (
+        <div className="flex-1 overflow-y-auto p-4">
+          <CalibrationWizard onClose={() => setIsCalibrating(false)} />
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-4">
+          <label className="flex flex-col gap-2 text-xs text-white/70 pb-4 border-b border-white/10">
+            <span className="text-white font-bold">Recognition</span>
+            <select
+              value={gestureClassifierId}
+              onChange={e => setGestureClassifierId(e.target.value)}
+              className="bg-black/60 border border-white/20 rounded px-2 py-1 text-white focus:border-yellow-400 focus:outline-none"
+            >
+              {listGestureClassifiers().map(classifier => (
+                <option key={classifier.id} value={classifier.id}>{classifier.label}</option>
+              ))}
+            </select>
+            {gestureClassifierId !== distanceClassifier.id && (
+              <span className="text-[10px] text-white/50">Calibration only applies to {distanceClassifier.label}.</span>
+            )}
+          </label>
+
+          <div className="flex flex-col gap-2 text-xs text-white/70 pb-4 border-b border-white/10">
+            <span className="text-white font-bold">Calibration</span>
+            <div className="flex gap-2">
+              <select
+                value={activeGestureProfile ?? ''}
+                onChange={e => selectGestureProfile(e.target.value || null)}
+                className="flex-1 bg-black/60 border border-white/20 rounded px-2 py-1 text-white focus:border-yellow-400 focus:outline-none"
+              >
+                <option value="">Default</option>
+                {gestureProfiles.map(profile => (
+                  <option key={profile.name} value={profile.name}>{profile.name}</option>
+                ))}
+              </select>
+              {activeGestureProfile && (
+                <button onClick={() => deleteGestureProfile(activeGestureProfile)} className={buttonClass}>Delete</button>
+              )}
+            </div>
+            <MatchQualityMeter thresholds={gestureThresholds} />
+            <button onClick={() => setIsCalibrating(true)} className={`${buttonClass} self-start`}>Calibrate…</button>
+          </div>
+
+          {BINDABLE_GESTURES.map(gesture => {
+            const binding = gestureBindings[gesture] ?? { action: 'none' as GestureAction, cooldown: 600 };
+            return (
+              <div key={gesture} className="flex flex-col gap-1 text-xs text-white/70">
+                <span className="text-white font-bold">{GESTURE_NAMES[gesture]}</span>
+                <select
+                  value={binding.action}
+                  onChange={e => setGestureBinding(gesture, { ...binding, action: e.target.value as GestureAction })}
+                  className="bg-black/60 border border-white/20 rounded px-2 py-1 text-white focus:border-yellow-400 focus:outline-none"
+                >
+                  {(Object.keys(GESTURE_ACTIONS) as GestureAction[]).map(action => (
+                    <option key={action} value={action}>{GESTURE_ACTIONS[action].label}</option>
+                  ))}
+                </select>
+                <label className="flex flex-col gap-1">
+                  <span className="flex justify-between">
+                    Cooldown
+                    <span className="font-mono text-yellow-400">{binding.cooldown} ms</span>
+                  </span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={MAX_COOLDOWN}
+                    step={100}
+                    value={binding.cooldown}
+                    disabled={binding.action === 'none'}
+                    onChange={e => setGestureBinding(gesture, { ...binding, cooldown: parseInt(e.target.value, 10) })}
+                    className="accent-yellow-400 disabled:opacity-30"
+                  />
+                </label>
+              </div>
+            );
+          })}
+
+          <p className="text-[10px] text-white/50">
+            Pinch always picks photos and Open Hand closes them. Pinching with both hands steers the camera.
+          </p>
+        </div>
+      )}
+
+      {!isCalibrating && (
+        <div className="flex flex-wrap gap-2 p-4 border-t border-white/10">
+          <button onClick={resetGestureBindings} className={buttonClass}>Reset bindings</button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Trail } from '@react-three/drei';
+import * as THREE from 'three';
+import { useStore } from '../store';
+import { GestureType } from '../types';
+
+// A glowing cursor in the scene for devices without a pointer of their own
+// (hands, gamepads, keyboards). It floats a fixed distance in front of the
+// camera, leans toward the photo a select would open, and snaps onto it as
+// the fingers close into a pinch.
+
+const CURSOR_DEPTH = 6; // World units in front of the camera
+const MAGNET = 0.25; // Share of the way to the candidate photo before any pinch
+const PINCH_START = 0.1; // Pinch scores below this don't pull the cursor yet
+
+// The ring closes as the hand does
+const RING_SCALE: Partial<Record<GestureType, number>> = {
+    [GestureType.OPEN_HAND]: 1.3,
+    [GestureType.CLOSED_FIST]: 0.7,
+    [GestureType.PINCH]: 0.45,
+};
+
+const COLOR_IDLE = new THREE.Color('#FFFBE6');
+const COLOR_SNAP = new THREE.Color('#FFD700');
+const COLOR_FIST = new THREE.Color('#FF6B6B');
+
+interface HandCursorProps {
+    // Photo meshes by id, from PhotoCloud
+    items: React.RefObject<Map<string, THREE.Mesh | THREE.Group>>;
+}
+
+export const HandCursor: React.FC<HandCursorProps> = ({ items }) => {
+    const groupRef = useRef<THREE.Group>(null);
+    const ringRef = useRef<THREE.Mesh>(null);
+    const coreRef = useRef<THREE.Mesh>(null);
+    const { camera } = useThree();
+
+    // Reusable vectors to prevent GC churn
+    const screen = useRef(new THREE.Vector3());
+    const photoScreen = useRef(new THREE.Vector3());
+    const target = useRef(new THREE.Vector3());
+
+    useFrame((_, delta) => {
+        const group = groupRef.current;
+        if (!group || !ringRef.current || !coreRef.current) return;
+
+        const { cursor, handData, hoveredPhotoId } = useStore.getState();
+        // Mice and touchscreens point for themselves
+        const visible = cursor.source === 'hands' ? handData.hands.length > 0 : cursor.source === 'gamepad' || cursor.source === 'keyboard';
+        if (!visible) {
+            group.visible = false;
+            return;
+        }
+
+        const gesture = cursor.source === 'hands' ? handData.gesture : GestureType.NONE;
+        // 0 until the fingers start closing, 1 when the pinch registers
+        const pinch = cursor.source === 'hands'
+            ? THREE.MathUtils.clamp((handData.pinch - PINCH_START) / (0.5 - PINCH_START), 0, 1)
+            : 0;
+
+        // Cursor in normalized device coordinates, pulled toward the candidate photo
+        screen.current.set(cursor.x * 2 - 1, 1 - cursor.y * 2, 0.5);
+        const photo = hoveredPhotoId ? items.current?.get(hoveredPhotoId) : undefined;
+        if (photo) {
+            photo.getWorldPosition(photoScreen.current).project(camera);
+            photoScreen.current.z = 0.5;
+            screen.current.lerp(photoScreen.current, MAGNET + (1 - MAGNET) * pinch);
+        }
+
+        // Back to world space at a fixed depth along that ray
+        target.current.copy(screen.current).unproject(camera).sub(camera.position).normalize()
+            .multiplyScalar(CURSOR_DEPTH).add(camera.position);
+
+        // Snap quickly onto a photo, glide otherwise
+        if (!group.visible) group.position.copy(target.current);
+        group.visible = true;
+        group.position.lerp(target.current, Math.min(1, delta * (photo ? 14 : 20)));
+        group.quaternion.copy(camera.quaternion);
+
+        const ringScale = (RING_SCALE[gesture] ?? 1) * (1 - pinch * 0.4);
+        const nextScale = THREE.MathUtils.lerp(ringRef.current.scale.x, ringScale, Math.min(1, delta * 12));
+        ringRef.current.scale.setScalar(nextScale);
+
+        const color = gesture === GestureType.CLOSED_FIST ? COLOR_FIST : photo ? COLOR_SNAP : COLOR_IDLE;
+        (ringRef.current.material as THREE.MeshBasicMaterial).color.lerp(color, Math.min(1, delta * 10));
+        (coreRef.current.material as THREE.MeshBasicMaterial).color.lerp(color, Math.min(1, delta * 10));
+    });
+
+    return (
+        <group ref={groupRef} visible={false} renderOrder={1000}>
+            <Trail width={0.4} length={5} color="#FFE9A8" attenuation={t => t * t}>
+                <mesh ref={coreRef} renderOrder={1000}>
+                    <sphereGeometry args={[0.05, 16, 16]} />
+                    <meshBasicMaterial color="#FFFBE6" toneMapped={false} depthTest={false} />
+                </mesh>
+            </Trail>
+            <mesh ref={ringRef} renderOrder={1000}>
+                <torusGeometry args={[0.16, 0.012, 8, 48]} />
+                <meshBasicMaterial color="#FFFBE6" toneMapped={false} depthTest={false} transparent opacity={0.9} />
+            </mesh>
+        </group>
+    );
+};
@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { subscribeHandFrames } from '../services/handFrames';
+import { GESTURE_PRIORITY, GestureScores, GestureThresholds, ScoredGesture, measureHand, scoreHandMeasure } from '../utils/gestureClassifier';
+import { GESTURE_NAMES } from '../utils/gestureBindings';
+
+interface MatchQualityMeterProps {
+  thresholds: GestureThresholds;
+  highlight?: ScoredGesture; // The pose the user is asked to make
+}
+
+// Smoothing of the bars; lower is steadier
+const SMOOTHING = 0.15;
+
+// Live bars showing how strongly the visible hand matches each gesture.
+// A bar that stays full while the pose is held means it is recognised reliably.
+export const MatchQualityMeter: React.FC<MatchQualityMeterProps> = ({ thresholds, highlight }) => {
+  const [scores, setScores] = useState<GestureScores | null>(null);
+
+  useEffect(() => subscribeHandFrames(detections => {
+    // Only meaningful with exactly one hand in view
+    const raw = detections.length === 1 ? scoreHandMeasure(measureHand(detections[0].landmarks), thresholds) : null;
+    setScores(prev => {
+      if (!raw) return null;
+      if (!prev) return raw;
+      return Object.fromEntries(GESTURE_PRIORITY.map(g => [g, prev[g] + (raw[g] - prev[g]) * SMOOTHING])) as GestureScores;
+    });
+  }), [thresholds]);
+
+  return (
+    <div className="flex flex-col gap-1 text-[10px] text-white/70">
+      {GESTURE_PRIORITY.map(gesture => {
+        const score = scores?.[gesture] ?? 0;
+        return (
+          <div key={gesture} className="flex items-center gap-2">
+            <span className={`w-16 shrink-0 ${gesture === highlight ? 'text-yellow-400 font-bold' : ''}`}>{GESTURE_NAMES[gesture]}</span>
+            <div className="flex-1 h-1.5 rounded bg-white/10 overflow-hidden">
+              <div
+                className={`h-full transition-[width] duration-100 ${score > 0.5 ? 'bg-green-400' : 'bg-white/40'}`}
+                style={{ width: `${Math.round(score * 100)}%` }}
+              />
+            </div>
+          </div>
+        );
+      })}
+      {!scores && <span className="text-white/40">Show one hand to the camera</span>}
+    </div>
+  );
+};
@@ -0,0 +1,364 @@
+import React, { useLayoutEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { AppMode } from '../types';
+
+// Instanced meshes that morph between the tree, scatter, text, love, formation
+// and photo mosaic layouts on the GPU. Each instance's position in every layout is
+// uploaded once as an attribute; the vertex shader mixes them with one weight
+// per layout, and only those weights change from frame to frame. Twinkle and
+// spin are computed in the shader too, so the per-frame cost does not grow
+// with the count.
+//
+// The message, formation and mosaic layouts are swapped in place when they
+// change (see setMorphLayout and setMorphMosaic), so the tree and scatter
+// buffers are built once per tree.
+// One more layout, the live one (the countdown), can be given new positions
+// while it is shown: see retargetMorph.
+
+// Layout each mode gathers into; FOCUS keeps the scatter behind the open photo
+const LAYOUT_INDEX: Record<AppMode, number> = {
+    [AppMode.TREE]: 0,
+    [AppMode.SCATTER]: 1,
+    [AppMode.FOCUS]: 1,
+    [AppMode.TEXT]: 2,
+    [AppMode.LOVE]: 3,
+    [AppMode.FORMATION]: 4,
+    [AppMode.MOSAIC]: 5,
+    [AppMode.COUNTDOWN]: 6,
+};
+const LAYOUT_COUNT = 7;
+
+// Layouts given their positions after the build, and the attribute holding each
+const SWAPPABLE_LAYOUTS = {
+    text: 'aTextPosition',
+    love: 'aLovePosition',
+    formation: 'aFormationPosition',
+    mosaic: 'aMosaicPosition',
+} as const;
+export type SwappableLayout = keyof typeof SWAPPABLE_LAYOUTS;
+const RETARGET_SPEED = 5; // Rate the live layout eases to new positions
+
+// Rates (per second) the weights ease toward the current layout
+export interface MorphSpeed {
+    gather: number;
+    scatter: number; // Faster, for an "explosion" out of the tree or text
+}
+
+export interface MorphUniforms {
+    uTime: { value: number };
+    uBlend: { value: Float32Array }; // Weight of each layout, in LAYOUT_INDEX order
+    uLiveMix: { value: number }; // How far the live layout is from its old positions to its new
+}
+
+export interface MorphInstance {
+    index: number; // Where the instance's xyz is in the positions given to setMorphLayout and retargetMorph
+    tree: THREE.Vector3;
+    scatter: THREE.Vector3;
+    phase?: number; // Twinkle offset, radians
+    twinkleSpeed?: number; // Twinkle rate, radians per second
+    rotation?: THREE.Euler; // Starting orientation before the spin
+    color?: string;
+}
+
+export interface MorphTargets {
+    count: number;
+    attributes: Record<string, THREE.InstancedBufferAttribute>;
+    colors: THREE.InstancedBufferAttribute | null;
+    defines: Record<string, string>;
+    indices: Uint32Array; // Each instance's `index`
+}
+
+export interface MorphTargetsOptions {
+    twinkle?: boolean; // Pulse the scale and bob outside the tree
+    spin?: boolean; // Rotate from `rotation`
+    color?: boolean;
+    mosaic?: boolean; // Take on a tile colour and scale in the mosaic; see setMorphMosaic
+}
+
+// Fills the instance attributes one instance at a time. `capacity` is an upper
+// bound; build() keeps only what was added.
+export const createMorphTargetsBuilder = (capacity: number, options: MorphTargetsOptions = {}) => {
+    const layouts = {
+        aTreePosition: new Float32Array(capacity * 3),
+        aScatterPosition: new Float32Array(capacity * 3),
+        aTextPosition: new Float32Array(capacity * 3),
+        aLovePosition: new Float32Array(capacity * 3),
+        aFormationPosition: new Float32Array(capacity * 3),
+        aMosaicPosition: new Float32Array(capacity * 3),
+    };
+    const twinkle = options.twinkle ? new Float32Array(capacity * 2) : null;
+    const rotation = options.spin ? new Float32Array(capacity * 3) : null;
+    const colors = options.color ? new Float32Array(capacity * 3) : null;
+    const mosaic = options.mosaic ? new Float32Array(capacity * 4) : null;
+    // The swappable layouts and the live one start out as the scatter
+    const liveFrom = new Float32Array(capacity * 3);
+    const liveTo = new Float32Array(capacity * 3);
+    const indices = new Uint32Array(capacity);
+    const color = new THREE.Color();
+    let count = 0;
+
+    const add = (instance: MorphInstance) => {
+        instance.tree.toArray(layouts.aTreePosition, count * 3);
+        instance.scatter.toArray(layouts.aScatterPosition, count * 3);
+        instance.scatter.toArray(layouts.aTextPosition, count * 3);
+        instance.scatter.toArray(layouts.aLovePosition, count * 3);
+        instance.scatter.toArray(layouts.aFormationPosition, count * 3);
+        instance.scatter.toArray(layouts.aMosaicPosition, count * 3);
+        instance.scatter.toArray(liveFrom, count * 3);
+        instance.scatter.toArray(liveTo, count * 3);
+        indices[count] = instance.index;
+        if (twinkle) {
+            twinkle[count * 2] = instance.phase ?? 0;
+            twinkle[count * 2 + 1] = instance.twinkleSpeed ?? 0;
+        }
+        if (rotation && instance.rotation) {
+            rotation[count * 3] = instance.rotation.x;
+            rotation[count * 3 + 1] = instance.rotation.y;
+            rotation[count * 3 + 2] = instance.rotation.z;
+        }
+        if (colors) color.set(instance.color ?? '#ffffff').toArray(colors, count * 3);
+        if (mosaic) mosaic.set([1, 1, 1, 1], count * 4);
+        count++;
+    };
+
+    const build = (): MorphTargets => {
+        const attribute = (array: Float32Array, size: number) =>
+            new THREE.InstancedBufferAttribute(array.subarray(0, count * size), size);
+        const attributes: Record<string, THREE.InstancedBufferAttribute> = {};
+        Object.entries(layouts).forEach(([name, array]) => { attributes[name] = attribute(array, 3); });
+        attributes.aLiveFrom = attribute(liveFrom, 3);
+        attributes.aLiveTo = attribute(liveTo, 3);
+        const defines: Record<string, string> = {};
+        if (twinkle) {
+            attributes.aTwinkle = attribute(twinkle, 2);
+            defines.MORPH_TWINKLE = '';
+        }
+        if (rotation) {
+            attributes.aRotation = attribute(rotation, 3);
+            defines.MORPH_SPIN = '';
+        }
+        if (mosaic) {
+            attributes.aMosaic = attribute(mosaic, 4);
+            defines.MORPH_MOSAIC = '';
+        }
+        return { count, attributes, colors: colors && attribute(colors, 3), defines, indices: indices.slice(0, count) };
+    };
+
+    return { add, build };
+};
+
+// Eases the layout weights toward the current mode, like a lerp of every
+// instance toward its target would: with weights starting at zero, instances
+// fly out from the origin on mount just as they always have.
+export const useMorphBlend = (mode: AppMode, speed: MorphSpeed): MorphUniforms => {
+    const uniforms = useMemo<MorphUniforms>(() => ({
+        uTime: { value: 0 },
+        uBlend: { value: new Float32Array(LAYOUT_COUNT) },
+        uLiveMix: { value: 1 },
+    }), []);
+
+    useFrame((state, delta) => {
+        const target = LAYOUT_INDEX[mode];
+        const rate = Math.min(1, delta * (mode === AppMode.SCATTER ? speed.scatter : speed.gather));
+        const blend = uniforms.uBlend.value;
+        for (let i = 0; i < LAYOUT_COUNT; i++) {
+            blend[i] += ((i === target ? 1 : 0) - blend[i]) * rate;
+        }
+        uniforms.uLiveMix.value += (1 - uniforms.uLiveMix.value) * Math.min(1, delta * RETARGET_SPEED);
+        uniforms.uTime.value = state.clock.elapsedTime;
+    });
+
+    return uniforms;
+};
+
+// Replaces one layout of every group with new positions, xyz per instance
+// `index`, or with the scatter for null. Instances jump straight to them, so it
+// is meant for layouts that are not on screen or are being rebuilt anyway; see
+// retargetMorph for easing.
+export const setMorphLayout = (groups: MorphTargets[], layout: SwappableLayout, positions: Float32Array | null) => {
+    groups.forEach(({ attributes, indices, count }) => {
+        const attribute = attributes[SWAPPABLE_LAYOUTS[layout]];
+        const array = attribute.array as Float32Array;
+        if (!positions) {
+            array.set(attributes.aScatterPosition.array);
+        } else {
+            for (let i = 0; i < count; i++) {
+                for (let k = 0; k < 3; k++) {
+                    array[i * 3 + k] = positions[indices[i] * 3 + k];
+                }
+            }
+        }
+        attribute.needsUpdate = true;
+    });
+};
+
+// Gives every instance of a group built with `mosaic` its tile colour, linear
+// rgb per instance `index`, and tile scale; null puts back white at full size.
+export const setMorphMosaic = (group: MorphTargets, colors: Float32Array | null, scale: number) => {
+    const attribute = group.attributes.aMosaic;
+    if (!attribute) return;
+    const array = attribute.array as Float32Array;
+    for (let i = 0; i < group.count; i++) {
+        for (let k = 0; k < 3; k++) {
+            array[i * 4 + k] = colors ? colors[group.indices[i] * 3 + k] : 1;
+        }
+        array[i * 4 + 3] = colors ? scale : 1;
+    }
+    attribute.needsUpdate = true;
+};
+
+// Moves the live layout of every group driven by `uniforms` to new positions,
+// xyz per instance `index`. Instances ease over from wherever they are right
+// now, so it can be called again before the last move has finished. Groups
+// sharing targets (box and ribbon) must be passed once.
+export const retargetMorph = (uniforms: MorphUniforms, groups: MorphTargets[], positions: Float32Array) => {
+    const mix = uniforms.uLiveMix.value;
+    groups.forEach(({ attributes, indices, count }) => {
+        const from = attributes.aLiveFrom.array as Float32Array;
+        const to = attributes.aLiveTo.array as Float32Array;
+        for (let i = 0; i < count; i++) {
+            for (let k = 0; k < 3; k++) {
+                from[i * 3 + k] += (to[i * 3 + k] - from[i * 3 + k]) * mix;
+                to[i * 3 + k] = positions[indices[i] * 3 + k];
+            }
+        }
+        attributes.aLiveFrom.needsUpdate = true;
+        attributes.aLiveTo.needsUpdate = true;
+    });
+    uniforms.uLiveMix.value = 0;
+};
+
+const VERTEX_HEADER = /* glsl */ `
+uniform float uTime;
+uniform float uBlend[7];
+uniform float uLiveMix;
+attribute vec3 aTreePosition;
+attribute vec3 aScatterPosition;
+attribute vec3 aTextPosition;
+attribute vec3 aLovePosition;
+attribute vec3 aFormationPosition;
+attribute vec3 aMosaicPosition;
+attribute vec3 aLiveFrom;
+attribute vec3 aLiveTo;
+#ifdef MORPH_TWINKLE
+attribute vec2 aTwinkle;
+#endif
+#ifdef MORPH_MOSAIC
+attribute vec4 aMosaic; // Tile colour and scale
+varying vec4 vMosaic; // Tile colour and how far into the mosaic
+#endif
+#ifdef MORPH_SPIN
+attribute vec3 aRotation;
+// Same order as THREE.Euler's default 'XYZ'
+mat3 rotationXYZ(vec3 r) {
+    vec3 c = cos(r);
+    vec3 s = sin(r);
+    mat3 rx = mat3(1.0, 0.0, 0.0, 0.0, c.x, s.x, 0.0, -s.x, c.x);
+    mat3 ry = mat3(c.y, 0.0, -s.y, 0.0, 1.0, 0.0, s.y, 0.0, c.y);
+    mat3 rz = mat3(c.z, s.z, 0.0, -s.z, c.z, 0.0, 0.0, 0.0, 1.0);
+    return rx * ry * rz;
+}
+#endif
+`;
+
+const VERTEX_NORMAL = /* glsl */ `
+#include <beginnormal_vertex>
+#ifdef MORPH_SPIN
+    // Half a radian per second about x and y
+    mat3 morphRotation = rotationXYZ(aRotation + vec3(uTime * 0.5, uTime * 0.5, 0.0));
+    objectNormal = morphRotation * objectNormal;
+#endif
+`;
+
+const VERTEX_POSITION = /* glsl */ `
+#include <begin_vertex>
+#ifdef MORPH_TWINKLE
+    // Pulse between 0.7 and 1.3 for a visible but subtle twinkle; the mosaic holds still
+    transformed *= 1.0 + sin(uTime * aTwinkle.y + aTwinkle.x) * 0.3 * (1.0 - uBlend[5]);
+#endif
+#ifdef MORPH_MOSAIC
+    transformed *= mix(1.0, aMosaic.w, uBlend[5]);
+    vMosaic = vec4(aMosaic.rgb, uBlend[5]);
+#endif
+#ifdef MORPH_SPIN
+    transformed = morphRotation * transformed;
+#endif
+    transformed += aTreePosition * uBlend[0] + aScatterPosition * uBlend[1]
+        + aTextPosition * uBlend[2] + aLovePosition * uBlend[3] + aFormationPosition * uBlend[4]
+        + aMosaicPosition * uBlend[5] + mix(aLiveFrom, aLiveTo, uLiveMix) * uBlend[6];
+#ifdef MORPH_TWINKLE
+    // Gentle float once out of the tree (and the mosaic)
+    transformed.y += sin(uTime + aTreePosition.x) * 0.2 * (1.0 - uBlend[0] - uBlend[5]);
+#endif
+`;
+
+// Mosaic tiles glow in their own colour instead of the material's
+const FRAGMENT_HEADER = /* glsl */ `
+#ifdef MORPH_MOSAIC
+varying vec4 vMosaic;
+#endif
+`;
+
+const FRAGMENT_COLOR = /* glsl */ `
+#include <color_fragment>
+#ifdef MORPH_MOSAIC
+    diffuseColor.rgb = mix(diffuseColor.rgb, vMosaic.rgb, vMosaic.a);
+#endif
+`;
+
+const FRAGMENT_EMISSIVE = /* glsl */ `
+#include <emissivemap_fragment>
+#ifdef MORPH_MOSAIC
+    totalEmissiveRadiance = mix(totalEmissiveRadiance, vMosaic.rgb * 0.8, vMosaic.a);
+#endif
+`;
+
+interface MorphInstancesProps {
+    targets: MorphTargets;
+    geometry: THREE.BufferGeometry;
+    uniforms: MorphUniforms;
+    children: React.ReactNode; // The material
+}
+
+export const MorphInstances: React.FC<MorphInstancesProps> = ({ targets, geometry, uniforms, children }) => {
+    const meshRef = useRef<THREE.InstancedMesh>(null);
+
+    // A copy carrying this group's attributes; meshes sharing `targets` share the buffers
+    const morphGeometry = useMemo(() => {
+        const copy = geometry.clone();
+        Object.entries(targets.attributes).forEach(([name, attribute]) => copy.setAttribute(name, attribute));
+        return copy;
+    }, [geometry, targets]);
+    useLayoutEffect(() => () => morphGeometry.dispose(), [morphGeometry]);
+
+    useLayoutEffect(() => {
+        const mesh = meshRef.current;
+        if (!mesh) return;
+        mesh.instanceColor = targets.colors;
+
+        const material = mesh.material as THREE.Material;
+        material.defines = { ...material.defines, ...targets.defines };
+        material.onBeforeCompile = shader => {
+            shader.uniforms.uTime = uniforms.uTime;
+            shader.uniforms.uBlend = uniforms.uBlend;
+            shader.uniforms.uLiveMix = uniforms.uLiveMix;
+            shader.vertexShader = shader.vertexShader
+                .replace('#include <common>', `#include <common>\n${VERTEX_HEADER}`)
+                .replace('#include <beginnormal_vertex>', VERTEX_NORMAL)
+                .replace('#include <begin_vertex>', VERTEX_POSITION);
+            shader.fragmentShader = shader.fragmentShader
+                .replace('#include <common>', `#include <common>\n${FRAGMENT_HEADER}`)
+                .replace('#include <color_fragment>', FRAGMENT_COLOR)
+                .replace('#include <emissivemap_fragment>', FRAGMENT_EMISSIVE);
+        };
+        material.needsUpdate = true;
+    }, [morphGeometry, targets, uniforms]);
+
+    // Instances sit at the origin as far as three.js knows, so culling would be wrong
+    return (
+        <instancedMesh ref={meshRef} args={[morphGeometry, undefined, targets.count]} frustumCulled={false}>
+            {children}
+        </instancedMesh>
+    );
+};
@@ -1,10 +1,50 @@
-import React, { useRef, useState, useMemo, useCallback, useEffect } from 'react';
+import React, { use, useRef, useState, useMemo, useCallback, useEffect } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
-import { Image, Text, Billboard } from '@react-three/drei';
+import { Image, Text, Billboard, useTexture } from '@react-three/drei';
 import * as THREE from 'three';
 import { useStore } from '../store';
-import { AppMode, GestureType, PhotoData } from '../types';
+import { AppMode, InputCursor, PhotoData } from '../types';
 import { generateHolidayDescription } from '../services/geminiService';
+import { subscribeInput } from '../services/input';
+import { CAPTION_FONT } from '../services/assetSources';
+import { resolveAssetUrl } from '../services/assetUrls';
+import { HandCursor } from './HandCursor';
+
+// "Magnetic" Selection Threshold
+// If the closest photo is within ~20% of screen width from the cursor, it can be selected.
+// This makes selection much easier than requiring pixel-perfect hover.
+const SELECT_RADIUS = 0.2;
+
+// Reusable vector to prevent GC churn
+const worldPos = new THREE.Vector3();
+
+// The photo a select would open: the closest one to the cursor in screen space
+const findSelectablePhoto = (
+    items: Map<string, THREE.Mesh | THREE.Group>,
+    camera: THREE.Camera,
+    cursor: InputCursor
+): string | null => {
+    let closestId: string | null = null;
+    let minDistance = SELECT_RADIUS;
+
+    items.forEach((mesh, id) => {
+        // Get world position and project to 2D screen space
+        mesh.getWorldPosition(worldPos);
+        worldPos.project(camera);
+        if (worldPos.z > 1) return; // Behind the camera
+
+        // Convert NDC (-1 to 1) to Screen Coords (0 to 1)
+        const screenX = (worldPos.x + 1) / 2;
+        const screenY = (1 - worldPos.y) / 2;
+
+        const dist = Math.hypot(screenX - cursor.x, screenY - cursor.y);
+        if (dist < minDistance) {
+            minDistance = dist;
+            closestId = id;
+        }
+    });
+    return closestId;
+};
 
 export const PhotoCloud: React.FC = () => {
     const photos = useStore(state => state.photos);
@@ -18,65 +58,46 @@ export const PhotoCloud: React.FC = () => {
         else itemsRef.current.delete(id);
     }, []);
 
-    // Centralized Interaction Loop
     useFrame(() => {
-        const { handData, focusedPhotoId, setFocusedPhotoId, updatePhotoDescription, mode } = useStore.getState();
+        const { cursor, focusedPhotoId, setFocusedPhotoId, setHoveredPhotoId } = useStore.getState();
 
-        // 1. Global Close Interaction (Open Hand)
-        // If a photo is focused, opening your hand releases/closes it.
-        if (focusedPhotoId) {
-            if (handData.gesture === GestureType.OPEN_HAND) {
-                setFocusedPhotoId(null);
-            }
-            return; // Exit early to prevent re-triggering open logic immediately
+        // The focused photo was removed from the album
+        if (focusedPhotoId && !itemsRef.current.has(focusedPhotoId)) {
+            setFocusedPhotoId(null);
+        }
+
+        // Show which photo a select would open, before it commits
+        setHoveredPhotoId(focusedPhotoId ? null : findSelectablePhoto(itemsRef.current, camera, cursor));
+    });
+
+    // Centralized selection for every input device (pinch, click, tap, Enter, gamepad A)
+    useEffect(() => subscribeInput(command => {
+        const { cursor, focusedPhotoId, setFocusedPhotoId, updatePhotoDescription, photos, mode, setMode } = useStore.getState();
+
+        // Back (an open hand, Esc, B) releases/closes the focused photo, or
+        // lets a photo mosaic fall back into the tree
+        if (command.type === 'back') {
+            if (focusedPhotoId) setFocusedPhotoId(null);
+            else if (mode === AppMode.MOSAIC) setMode(AppMode.TREE);
+            return;
         }
+        // Select opens the closest photo to the cursor; ignored while one is open
+        // so a held pinch doesn't re-trigger
+        if (command.type !== 'select' || focusedPhotoId) return;
 
-        // 2. Global Open Interaction (Pinch)
-        // If no photo is focused, pinching selects the closest photo to the hand cursor.
-        if (handData.gesture === GestureType.PINCH) {
-            let closestId: string | null = null;
-            let minDistance = Infinity;
+        const selectedId = findSelectablePhoto(itemsRef.current, camera, cursor);
+        if (selectedId) {
+            setFocusedPhotoId(selectedId);
             
-            // Reusable vector to prevent GC churn
-            const worldPos = new THREE.Vector3();
-
-            itemsRef.current.forEach((mesh, id) => {
-                // Get world position and project to 2D screen space
-                mesh.getWorldPosition(worldPos);
-                worldPos.project(camera);
-
-                // Convert NDC (-1 to 1) to Screen Coords (0 to 1)
-                const screenX = (worldPos.x + 1) / 2;
-                const screenY = (1 - worldPos.y) / 2;
-
-                // Calculate Euclidean distance to hand cursor
-                const dx = screenX - handData.x;
-                const dy = screenY - handData.y;
-                const dist = Math.sqrt(dx * dx + dy * dy);
-
-                // Find the absolute closest photo
-                if (dist < minDistance) {
-                    minDistance = dist;
-                    closestId = id;
-                }
-            });
-
-            // "Magnetic" Selection Threshold
-            // If the closest photo is within ~20% of screen width from the cursor, select it.
-            // This makes selection much easier than requiring pixel-perfect hover.
-            if (closestId && minDistance < 0.2) {
-                setFocusedPhotoId(closestId);
-                
-                // Trigger AI Description if missing
-                const photo = photos.find(p => p.id === closestId);
-                if (photo && !photo.description) {
-                     generateHolidayDescription(photo.url).then(desc => {
-                        updatePhotoDescription(closestId!, desc);
-                     });
-                }
+            // Trigger AI Description if missing
+            const photo = photos.find(p => p.id === selectedId);
+            if (photo && !photo.description) {
+                 generateHolidayDescription(photo.url).then(desc => {
+                    updatePhotoDescription(selectedId, desc);
+                 });
             }
         }
-    });
+    }), [camera]);
 
     return (
         <group>
@@ -87,6 +108,7 @@ export const PhotoCloud: React.FC = () => {
                     registerRef={registerRef}
                 />
             ))}
+            <HandCursor items={itemsRef} />
         </group>
     );
 };
@@ -100,13 +122,11 @@ const PhotoItem: React.FC<PhotoItemProps> = ({ data, registerRef }) => {
     const meshRef = useRef<THREE.Group>(null);
     const mode = useStore(state => state.mode);
     const focusedPhotoId = useStore(state => state.focusedPhotoId);
-    const setFocusedPhotoId = useStore(state => state.setFocusedPhotoId);
-    const updatePhotoDescription = useStore(state => state.updatePhotoDescription);
     
     // Mouse hover state
     const [hovered, setHover] = useState(false);
-    // Hand proximity state (Visual only)
-    const [handHovered, setHandHover] = useState(false);
+    // About to be opened by a pinch, click or button press (Visual only)
+    const isCandidate = useStore(state => state.hoveredPhotoId === data.id);
 
     const isFocused = focusedPhotoId === data.id;
 
@@ -116,6 +136,16 @@ const PhotoItem: React.FC<PhotoItemProps> = ({ data, registerRef }) => {
         return () => registerRef(data.id, null);
     }, [data.id, registerRef]);
 
+    // Load the texture here (instead of inside <Image>) so it can be freed
+    // when the photo is removed or replaced
+    const texture = useTexture(data.url);
+    useEffect(() => {
+        return () => {
+            texture.dispose();
+            useTexture.clear(data.url);
+        };
+    }, [texture, data.url]);
+
     // Helper object for calculating target rotation smoothly
     const targetObj = useMemo(() => new THREE.Object3D(), []);
 
@@ -190,6 +220,9 @@ const PhotoItem: React.FC<PhotoItemProps> = ({ data, registerRef }) => {
             }
         }
 
+        // Swell the photo the cursor is about to pick
+        if (isCandidate && !isFocused) targetScale *= 1.15;
+
         // 2. Interpolate Position
         const posSpeed = isFocused ? 12 : 3;
         meshRef.current.position.lerp(targetPos, delta * posSpeed);
@@ -210,25 +243,6 @@ const PhotoItem: React.FC<PhotoItemProps> = ({ data, registerRef }) => {
         } else {
             meshRef.current.renderOrder = 0;
         }
-
-        // 6. Visual Feedback Logic (Local)
-        // We still calculate local proximity for visual feedback (highlighting),
-        // but the actual "Select" logic is now handled by the parent PhotoCloud.
-        const handData = useStore.getState().handData;
-        const vector = new THREE.Vector3();
-        meshRef.current.getWorldPosition(vector);
-        vector.project(camera);
-
-        const screenX = (vector.x + 1) / 2;
-        const screenY = (1 - vector.y) / 2;
-        const dx = screenX - handData.x;
-        const dy = screenY - handData.y;
-        const dist = Math.sqrt(dx * dx + dy * dy);
-
-        const isHoveringHand = dist < 0.12;
-        if (isHoveringHand !== handHovered) {
-            setHandHover(isHoveringHand);
-        }
     });
 
     return (
@@ -306,24 +320,13 @@ const PhotoItem: React.FC<PhotoItemProps> = ({ data, registerRef }) => {
 
             {/* Photo Image */}
             <Image
-                url={data.url}
+                texture={texture}
                 transparent
                 side={THREE.DoubleSide}
                 onPointerOver={() => setHover(true)}
                 onPointerOut={() => setHover(false)}
-                onClick={() => {
-                    // Fallback mouse interaction
-                    if (mode === AppMode.SCATTER || isFocused) {
-                        setFocusedPhotoId(isFocused ? null : data.id);
-                        if (!isFocused && !data.description) {
-                            generateHolidayDescription(data.url).then(desc => {
-                                updatePhotoDescription(data.id, desc);
-                            });
-                        }
-                    }
-                }}
                 // Visual feedback for hover
-                color={(hovered || handHovered) && !isFocused ? '#fff5f5' : 'white'}
+                color={(hovered || isCandidate) && !isFocused ? '#fff5f5' : 'white'}
                 toneMapped={false} 
                 position={[0, 0, 0.02]} 
             />
@@ -338,7 +341,7 @@ const PhotoItem: React.FC<PhotoItemProps> = ({ data, registerRef }) => {
                         outlineColor="#3E2723"
                         maxWidth={2} 
                         textAlign="center" 
-                        font="https://fonts.gstatic.com/s/inter/v12/UcCO3FwrK3iLTeHuS_fvQtMwCp50KnMw2boKoduKmMEVuLyfAZ9hjp-Ek-_EeA.woff"
+                        font={use(resolveAssetUrl(CAPTION_FONT))}
                         anchorY="top"
                         lineHeight={1.2}
                     >
@@ -1,17 +1,27 @@
-import React, { useRef, useEffect } from 'react';
+import React, { use, useRef, useEffect } from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { Environment, Stars, Sparkles } from '@react-three/drei';
 import { EffectComposer, Bloom } from '@react-three/postprocessing';
 import { ChristmasTree } from './ChristmasTree';
 import { PhotoCloud } from './PhotoCloud';
 import { Snowfall } from './Snowfall';
-import { useStore } from '../store';
-import { AppMode, GestureType } from '../types';
+import { DEFAULT_CAMERA_VIEW, useStore } from '../store';
+import { setScreenshotSource } from '../services/screenshot';
+import { NIGHT_HDR } from '../services/assetSources';
+import { resolveAssetUrl } from '../services/assetUrls';
+import { subscribeInput } from '../services/input';
+import { subscribeGestureEvents } from '../services/gestureEvents';
+import { startInputDevices } from '../services/inputDevices';
+import { AppMode, CameraView, GestureType, Handedness } from '../types';
 import * as THREE from 'three';
 
+// drei's night preset, from the offline build's copy when there is one
+const NightEnvironment: React.FC = () => <Environment files={use(resolveAssetUrl(NIGHT_HDR))} />;
+
 const PulsingLights: React.FC = () => {
     const redLight = useRef<THREE.PointLight>(null);
     const greenLight = useRef<THREE.PointLight>(null);
+    const lights = useStore(state => state.sceneConfig.lights);
 
     useFrame(({ clock }) => {
         const t = clock.elapsedTime;
@@ -28,38 +38,47 @@ const PulsingLights: React.FC = () => {
     return (
         <>
             {/* Lower ambient light to increase contrast and mood */}
-            <ambientLight intensity={0.15} />
+            <ambientLight intensity={lights.ambientIntensity} />
             
             {/* Pulsing colored lights */}
             <pointLight 
                 ref={redLight} 
-                position={[10, 10, 10]} 
-                color="#ff0000" 
+                position={lights.redPosition} 
+                color={lights.redColor} 
                 distance={50} 
                 decay={2} 
             />
             <pointLight 
                 ref={greenLight} 
-                position={[-10, -5, -10]} 
-                color="#00ff00" 
+                position={lights.greenPosition} 
+                color={lights.greenColor} 
                 distance={50} 
                 decay={2} 
             />
             
             {/* Top Spotlight for main illumination */}
             <spotLight 
-                position={[0, 15, 0]} 
+                position={lights.spotPosition} 
                 angle={0.5} 
                 penumbra={1} 
-                intensity={2.0} 
+                intensity={lights.spotIntensity} 
                 color="#fff" 
             />
         </>
     );
 };
 
+// Head-tracked parallax: the view shifts with the viewer's head, like looking
+// through a window. Offsets are world units for the head crossing the frame.
+const HEAD_PARALLAX_X = 4;
+const HEAD_PARALLAX_Y = 2.5;
+const HEAD_REST_SIZE = 0.12; // Eye distance at a typical viewing distance
+const HEAD_FOLLOW_RATE = 4; // Per second; lower is smoother but laggier
+const HEAD_RECENTRE_RATE = 1.5; // Drift back to the middle once the face is lost
+const WORLD_UP = new THREE.Vector3(0, 1, 0);
+
 const CameraController: React.FC = () => {
-    const { camera, size, gl } = useThree();
+    const { camera, size } = useThree();
     const mode = useStore(state => state.mode);
     const handData = useStore(state => state.handData);
     const focusedPhotoId = useStore(state => state.focusedPhotoId);
@@ -67,105 +86,88 @@ const CameraController: React.FC = () => {
     // Auto-Animation Refs
     const autoAngle = useRef(0);
     
-    // Manual Control Refs (Target Values)
-    const targetZoom = useRef(1.0);
-    const targetOrbit = useRef({ x: 0, y: 0 }); // x: theta (azimuth), y: height offset
+    // Manual Control Refs (Target Values), starting from the stored view (e.g. a shared link)
+    const initialView = useStore.getState().cameraView;
+    const targetZoom = useRef(initialView.zoom);
+    const targetOrbit = useRef({ x: initialView.azimuth, y: initialView.height }); // x: theta (azimuth), y: height offset
     const targetPan = useRef(new THREE.Vector3(0, 0, 0));
 
     // Current Smoothed Values
-    const currentZoom = useRef(1.0);
-    const currentOrbit = useRef({ x: 0, y: 0 });
+    const currentZoom = useRef(initialView.zoom);
+    const currentOrbit = useRef({ x: initialView.azimuth, y: initialView.height });
     const currentPan = useRef(new THREE.Vector3(0, 0, 0));
 
+    // Last view we published or adopted; anything else in the store came from outside
+    const syncedView = useRef<CameraView>(initialView);
+
+    const publishView = () => {
+        const view = { azimuth: targetOrbit.current.x, height: targetOrbit.current.y, zoom: targetZoom.current };
+        syncedView.current = view;
+        useStore.getState().setCameraView(view);
+    };
+
     // Determine orientation
     const isPortrait = size.width < size.height;
     
     const baseZ = isPortrait ? 17.5 : 14;
     const scatterRadius = isPortrait ? 28 : 22;
 
-    // --- Input Handling ---
-    useEffect(() => {
-        const canvas = gl.domElement;
-        
-        const handleWheel = (e: WheelEvent) => {
-            if (focusedPhotoId) return; // Disable zoom in focus mode to prevent glitches
-            e.preventDefault();
-            // Zoom: Modify scale factor. Scroll Up (neg) -> Zoom In (decrease factor? no, usually zoom in means closer)
-            // Let's say zoom factor < 1 is closer, > 1 is further. 
-            // Or better: zoom factor multiplier.
-            const sensitivity = 0.001;
-            const delta = e.deltaY * sensitivity;
-            targetZoom.current = THREE.MathUtils.clamp(targetZoom.current + delta, 0.4, 2.5);
-        };
-
-        let isDragging = false;
-        let lastX = 0;
-        let lastY = 0;
-
-        const handlePointerDown = (e: PointerEvent) => {
-            if (focusedPhotoId) return;
-            isDragging = true;
-            lastX = e.clientX;
-            lastY = e.clientY;
-            canvas.setPointerCapture(e.pointerId);
-        };
-
-        const handlePointerMove = (e: PointerEvent) => {
-            if (!isDragging) return;
-            
-            const dx = e.clientX - lastX;
-            const dy = e.clientY - lastY;
-            lastX = e.clientX;
-            lastY = e.clientY;
-
-            // Left Click (buttons=1) -> Orbit
-            if (e.buttons === 1) {
-                const orbitSpeed = 0.005;
-                const heightSpeed = 0.02;
-                targetOrbit.current.x -= dx * orbitSpeed;
-                targetOrbit.current.y += dy * heightSpeed;
-            } 
-            // Right Click (buttons=2) or Middle (4) -> Pan
-            else if (e.buttons === 2 || e.buttons === 4) {
-                const panSpeed = 0.02; // Adjust based on zoom? Keeping simple for now.
-                // Pan needs to be relative to camera view
-                // Simple approximation: X moves X, Y moves Y (since we mostly look forward)
-                // For better pan, we'd use camera right/up vectors, but this is sufficient for a simple tree viewer
-                targetPan.current.x -= dx * panSpeed;
-                targetPan.current.y += dy * panSpeed;
-            }
-        };
+    // Smoothed head position: x/y from the frame centre, depth as a distance factor
+    const head = useRef({ x: 0, y: 0, depth: 1 });
+    const parallaxAxes = useRef({ forward: new THREE.Vector3(), right: new THREE.Vector3(), up: new THREE.Vector3() });
 
-        const handlePointerUp = (e: PointerEvent) => {
-            isDragging = false;
-            canvas.releasePointerCapture(e.pointerId);
-        };
+    // Hands currently held open; they steer the scatter view
+    const openHands = useRef(new Set<Handedness>());
+    useEffect(() => subscribeGestureEvents(event => {
+        if (event.gesture !== GestureType.OPEN_HAND) return;
+        if (event.type === 'start') openHands.current.add(event.handedness);
+        else openHands.current.delete(event.handedness);
+    }), []);
 
-        const handleContextMenu = (e: Event) => e.preventDefault();
-
-        canvas.addEventListener('wheel', handleWheel, { passive: false });
-        canvas.addEventListener('pointerdown', handlePointerDown);
-        canvas.addEventListener('pointermove', handlePointerMove);
-        canvas.addEventListener('pointerup', handlePointerUp);
-        canvas.addEventListener('contextmenu', handleContextMenu);
+    // --- Input Handling ---
+    // Every device sends the same camera commands; see services/inputDevices
+    useEffect(() => subscribeInput(command => {
+        if (command.type !== 'camera') return;
+        if (useStore.getState().focusedPhotoId) return; // Disable manual control in focus mode to prevent glitches
+
+        if (command.zoom) targetZoom.current = THREE.MathUtils.clamp(targetZoom.current * command.zoom, 0.4, 2.5);
+        if (command.orbit) targetOrbit.current.x += command.orbit;
+        if (command.height) targetOrbit.current.y += command.height;
+        if (command.panX) targetPan.current.x += command.panX;
+        if (command.panY) targetPan.current.y += command.panY;
+        if (command.zoom || command.orbit || command.height) publishView();
+    }), []);
 
-        return () => {
-            canvas.removeEventListener('wheel', handleWheel);
-            canvas.removeEventListener('pointerdown', handlePointerDown);
-            canvas.removeEventListener('pointermove', handlePointerMove);
-            canvas.removeEventListener('pointerup', handlePointerUp);
-            canvas.removeEventListener('contextmenu', handleContextMenu);
-        };
-    }, [gl.domElement, focusedPhotoId]);
+    useFrame((state, delta) => {
+        // Adopt views set from outside the canvas (shared links, history navigation)
+        const storeView = useStore.getState().cameraView;
+        if (storeView !== syncedView.current) {
+            syncedView.current = storeView;
+            targetZoom.current = storeView.zoom;
+            targetOrbit.current = { x: storeView.azimuth, y: storeView.height };
+        }
 
+        // Follow the head, or recentre when the face is lost or tracking is off
+        const { headTracking, headPosition } = useStore.getState();
+        const tracked = headTracking ? headPosition : null;
+        const follow = 1 - Math.exp(-delta * (tracked ? HEAD_FOLLOW_RATE : HEAD_RECENTRE_RATE));
+        const headX = tracked ? tracked.x - 0.5 : 0;
+        const headY = tracked ? tracked.y - 0.5 : 0;
+        const depth = tracked ? THREE.MathUtils.clamp(HEAD_REST_SIZE / tracked.size, 0.85, 1.15) : 1;
+        head.current.x += (headX - head.current.x) * follow;
+        head.current.y += (headY - head.current.y) * follow;
+        head.current.depth += (depth - head.current.depth) * follow;
 
-    useFrame((state, delta) => {
         if (focusedPhotoId) {
             // In focus mode, we mostly surrender control to the PhotoCloud logic, 
             // but we ensure the camera resets its manual offsets slowly so they don't jump when exiting
             targetZoom.current = 1.0;
             targetOrbit.current = { x: 0, y: 0 };
             targetPan.current.set(0, 0, 0);
+            if (storeView !== DEFAULT_CAMERA_VIEW) {
+                syncedView.current = DEFAULT_CAMERA_VIEW;
+                useStore.getState().setCameraView(DEFAULT_CAMERA_VIEW);
+            }
             
             // Still smooth towards defaults
             currentZoom.current = THREE.MathUtils.lerp(currentZoom.current, 1.0, delta * 2);
@@ -193,7 +195,7 @@ const CameraController: React.FC = () => {
 
             const rotationSpeed = rotationInput * 1.5; 
             
-            if (handData.gesture === GestureType.OPEN_HAND) {
+            if (openHands.current.size > 0 && !handData.bimanual?.active) {
                 autoAngle.current += rotationSpeed * delta;
             } else {
                 autoAngle.current += delta * 0.05; // Very slow auto drift
@@ -237,7 +239,18 @@ const CameraController: React.FC = () => {
         const finalCameraPos = basePos.add(currentPan.current);
         const finalLookAt = lookAtTarget.add(currentPan.current);
 
-        // 4. Update Camera
+        // 4. Head Parallax: move the eye with the head, keep looking at the same point;
+        // leaning in brings the camera closer
+        const { forward, right, up } = parallaxAxes.current;
+        forward.subVectors(finalLookAt, finalCameraPos).normalize();
+        right.crossVectors(forward, WORLD_UP).normalize();
+        up.crossVectors(right, forward);
+        finalCameraPos
+            .addScaledVector(right, head.current.x * HEAD_PARALLAX_X)
+            .addScaledVector(up, -head.current.y * HEAD_PARALLAX_Y)
+            .sub(finalLookAt).multiplyScalar(head.current.depth).add(finalLookAt);
+
+        // 5. Update Camera
         camera.position.copy(finalCameraPos);
         camera.lookAt(finalLookAt);
     });
@@ -245,19 +258,29 @@ const CameraController: React.FC = () => {
     return null;
 };
 
+// Mouse, touch, keyboard and gamepad, turned into the same commands as hands
+const InputDevices: React.FC = () => {
+    const { gl } = useThree();
+    useEffect(() => startInputDevices(gl.domElement), [gl.domElement]);
+    return null;
+};
+
 export const Scene: React.FC = () => {
+    const bloom = useStore(state => state.sceneConfig.bloom);
+
     return (
         <Canvas 
             camera={{ position: [0, 0, 17.5], fov: 60 }} 
-            gl={{ toneMapping: THREE.ReinhardToneMapping, toneMappingExposure: 1.5 }}
+            gl={{ toneMapping: THREE.ReinhardToneMapping, toneMappingExposure: 1.5, preserveDrawingBuffer: true }}
             dpr={[1, 2]} // Limit pixel ratio for performance on high-res mobile screens
+            onCreated={({ gl }) => setScreenshotSource(gl.domElement)}
         >
             <color attach="background" args={['#050505']} />
             
             {/* Environment */}
             <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
             <Sparkles count={200} scale={12} size={2} speed={0.4} opacity={0.5} color="#FFFFE0" />
-            <Environment preset="night" />
+            <NightEnvironment />
             
             {/* Dynamic Lighting */}
             <PulsingLights />
@@ -267,10 +290,11 @@ export const Scene: React.FC = () => {
             <PhotoCloud />
             <Snowfall />
             <CameraController />
+            <InputDevices />
 
             {/* Post Processing */}
             <EffectComposer>
-                <Bloom luminanceThreshold={1} mipmapBlur intensity={1.5} radius={0.4} />
+                <Bloom luminanceThreshold={bloom.luminanceThreshold} mipmapBlur intensity={bloom.intensity} radius={bloom.radius} />
             </EffectComposer>
         </Canvas>
     );
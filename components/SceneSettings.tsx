@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useStore } from '../store';
+import { AppMode, SceneConfig } from '../types';
+import { SceneConfigPatch } from '../utils/sceneConfig';
+import { getCountdownTarget } from '../utils/countdown';
+import { READABLE_FONT_SIZE, getMessageFontSize } from '../utils/textFormation';
+
+interface SceneSettingsProps {
+  onClose: () => void;
+}
+
+interface SliderSpec {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  read: (config: SceneConfig) => number;
+  patch: (value: number) => SceneConfigPatch;
+}
+
+// The most useful knobs; everything else is reachable through a JSON file
+const SLIDERS: SliderSpec[] = [
+  { label: 'Tree height', min: 4, max: 24, step: 0.5, read: c => c.tree.height, patch: v => ({ tree: { height: v } }) },
+  { label: 'Tree width', min: 0.3, max: 1.4, step: 0.05, read: c => c.tree.widthRatio, patch: v => ({ tree: { widthRatio: v } }) },
+  { label: 'Particles', min: 0, max: 150000, step: 1000, read: c => c.particles.count, patch: v => ({ particles: { count: v } }) },
+  { label: 'Yellow lights', min: 0, max: 1, step: 0.05, read: c => c.particles.yellowRatio, patch: v => ({ particles: { yellowRatio: v } }) },
+  { label: 'Ornaments', min: 0, max: 2000, step: 50, read: c => c.ornaments.count, patch: v => ({ ornaments: { count: v } }) },
+  { label: 'Snowflakes', min: 0, max: 5000, step: 100, read: c => c.snow.count, patch: v => ({ snow: { count: v } }) },
+  { label: 'Bloom', min: 0, max: 5, step: 0.1, read: c => c.bloom.intensity, patch: v => ({ bloom: { intensity: v } }) },
+];
+
+interface MessageFieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Keeps its own draft so a half-typed (or briefly empty) message that the
+// config rejects stays on screen instead of snapping back. Any length is
+// accepted; the letters shrink to fit, with a note once they get too small.
+const MessageField: React.FC<MessageFieldProps> = ({ label, value, onChange }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+  const fontSize = useMemo(() => getMessageFontSize(draft), [draft]);
+  const isTooDense = fontSize !== null && draft.trim() !== '' && fontSize < READABLE_FONT_SIZE;
+
+  return (
+    <label className="flex flex-col gap-1 text-xs text-white/70">
+      {label}
+      <textarea
+        value={draft}
+        rows={2}
+        onChange={e => {
+          setDraft(e.target.value);
+          onChange(e.target.value);
+        }}
+        className="bg-white/10 border border-white/20 rounded px-2 py-1 text-sm text-white resize-none focus:outline-none focus:border-yellow-400"
+      />
+      {isTooDense && (
+        <span className="text-[10px] text-yellow-300">
+          This much text is drawn too small to read clearly. Shorter lines, or fewer of them, will help.
+        </span>
+      )}
+    </label>
+  );
+};
+
+// How far before the end "Rehearse" sets the simulated clock
+const REHEARSAL_LEAD = 15000;
+
+const TIME_ZONES = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+
+export const SceneSettings: React.FC<SceneSettingsProps> = ({ onClose }) => {
+  const configInputRef = useRef<HTMLInputElement>(null);
+  const sceneConfig = useStore(state => state.sceneConfig);
+  const updateSceneConfig = useStore(state => state.updateSceneConfig);
+  const resetSceneConfig = useStore(state => state.resetSceneConfig);
+  const clockOffset = useStore(state => state.clockOffset);
+  const setSimulatedTime = useStore(state => state.setSimulatedTime);
+  const setMode = useStore(state => state.setMode);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      setErrors([`${file.name} is not valid JSON`]);
+      return;
+    }
+    setErrors(updateSceneConfig(parsed));
+  };
+
+  const handleSave = () => {
+    const blob = new Blob([JSON.stringify(sceneConfig, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'scene-config.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Plays the end of the countdown now, on a clock set just before it
+  const handleRehearse = () => {
+    setSimulatedTime(getCountdownTarget(sceneConfig.countdown, Date.now()) - REHEARSAL_LEAD);
+    setMode(AppMode.COUNTDOWN);
+  };
+
+  const buttonClass = 'text-[10px] md:text-xs px-2 py-1 rounded border border-white/20 hover:bg-white/10 transition-colors';
+
+  return (
+    <div className="absolute top-0 right-0 h-full w-full sm:w-80 z-30 pointer-events-auto bg-black/80 backdrop-blur-md border-l border-white/20 text-white flex flex-col shadow-[0_0_30px_rgba(0,0,0,0.6)]">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+        <h2 className="font-['Mountains_of_Christmas'] text-2xl text-yellow-400">Scene</h2>
+        <button onClick={onClose} className="text-white/70 hover:text-white text-sm">✕</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-3">
+        {SLIDERS.map(slider => {
+          const value = slider.read(sceneConfig);
+          return (
+            <label key={slider.label} className="flex flex-col gap-1 text-xs text-white/70">
+              <span className="flex justify-between">
+                {slider.label}
+                <span className="font-mono text-yellow-400">{value}</span>
+              </span>
+              <input
+                type="range"
+                min={slider.min}
+                max={slider.max}
+                step={slider.step}
+                value={value}
+                onChange={e => setErrors(updateSceneConfig(slider.patch(parseFloat(e.target.value))))}
+                className="accent-yellow-400"
+              />
+            </label>
+          );
+        })}
+
+        <MessageField
+          label="Text message"
+          value={sceneConfig.messages.text}
+          onChange={text => setErrors(updateSceneConfig({ messages: { text } }))}
+        />
+        <MessageField
+          label="Love names or initials"
+          value={sceneConfig.messages.love}
+          onChange={love => setErrors(updateSceneConfig({ messages: { love } }))}
+        />
+
+        <label className="flex flex-col gap-1 text-xs text-white/70">
+          Countdown to
+          <input
+            type="datetime-local"
+            value={sceneConfig.countdown.target}
+            onChange={e => setErrors(updateSceneConfig({ countdown: { target: e.target.value } }))}
+            className="bg-white/10 border border-white/20 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-yellow-400 [color-scheme:dark]"
+          />
+          <span className="text-[10px] text-white/50">Leave empty for the next New Year</span>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-white/70">
+          Time zone
+          <select
+            value={sceneConfig.countdown.timeZone}
+            onChange={e => setErrors(updateSceneConfig({ countdown: { timeZone: e.target.value } }))}
+            className="bg-white/10 border border-white/20 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-yellow-400"
+          >
+            <option value="" className="bg-black">This device's</option>
+            {TIME_ZONES.map(zone => <option key={zone} value={zone} className="bg-black">{zone}</option>)}
+          </select>
+        </label>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={handleRehearse} className={buttonClass}>Rehearse the last {REHEARSAL_LEAD / 1000} s</button>
+          {clockOffset !== 0 && (
+            <button onClick={() => setSimulatedTime(null)} className={buttonClass}>Back to real time</button>
+          )}
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="text-[10px] md:text-xs text-red-300 bg-red-900/40 border border-red-500/40 rounded p-2 space-y-1">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 p-4 border-t border-white/10">
+        <input type="file" ref={configInputRef} onChange={handleLoad} className="hidden" accept="application/json,.json" />
+        <button onClick={() => configInputRef.current?.click()} className={buttonClass}>Load JSON</button>
+        <button onClick={handleSave} className={buttonClass}>Save JSON</button>
+        <button onClick={() => { resetSceneConfig(); setErrors([]); }} className={buttonClass}>Reset</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { useStore } from '../store';
+import { parseSeed, randomSeed } from '../utils/random';
+
+// Shows the scene seed and lets the user type one in or roll a new one
+export const SeedControl: React.FC = () => {
+  const sceneSeed = useStore(state => state.sceneSeed);
+  const setSceneSeed = useStore(state => state.setSceneSeed);
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const seed = parseSeed(draft);
+    if (seed !== null) setSceneSeed(seed);
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex items-center justify-end gap-1 text-white/50 text-xs pointer-events-auto">
+      <span>Seed:</span>
+      <input
+        value={draft ?? String(sceneSeed)}
+        onChange={e => setDraft(e.target.value.replace(/[^0-9]/g, ''))}
+        onBlur={commit}
+        onKeyDown={e => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') setDraft(null);
+        }}
+        inputMode="numeric"
+        title="Same seed, same tree"
+        className="w-24 bg-transparent border-b border-white/20 focus:border-yellow-400 focus:outline-none text-yellow-400 font-mono text-right"
+      />
+      <button
+        onClick={() => setSceneSeed(randomSeed())}
+        title="New random tree"
+        className="hover:text-white transition-colors px-1"
+      >
+        ↻
+      </button>
+    </div>
+  );
+};
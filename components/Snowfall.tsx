@@ -2,37 +2,43 @@ import React, { useMemo, useRef, useLayoutEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Instance, Instances } from '@react-three/drei';
 import * as THREE from 'three';
-
-const SNOW_COUNT = 1200;
+import { useStore } from '../store';
+import { Random, createRandom } from '../utils/random';
 
 // Helper to generate snow data
-const generateSnowData = (count: number) => {
+const generateSnowData = (count: number, seed: number, group: string) => {
+    const random = createRandom(seed, `snow-${group}`);
     const temp = [];
     for (let i = 0; i < count; i++) {
         temp.push({
             position: new THREE.Vector3(
-                (Math.random() - 0.5) * 40,
-                (Math.random() - 0.5) * 30 + 5,
-                (Math.random() - 0.5) * 40
+                (random() - 0.5) * 40,
+                (random() - 0.5) * 30 + 5,
+                (random() - 0.5) * 40
             ),
-            speed: 0.2 + Math.random() * 0.8, // Slower, gentler fall
-            wobbleSpeed: 0.5 + Math.random(),
-            offset: Math.random() * 100,
-            scale: 0.5 + Math.random() * 0.8 // Random scale 0.5x to 1.3x
+            speed: 0.2 + random() * 0.8, // Slower, gentler fall
+            wobbleSpeed: 0.5 + random(),
+            offset: random() * 100,
+            scale: 0.5 + random() * 0.8, // Random scale 0.5x to 1.3x
+            // Own stream per flake so respawn spots don't depend on frame timing
+            respawn: createRandom(seed, `snow-${group}-${i}`)
         });
     }
     return temp;
 };
 
 export const Snowfall: React.FC = () => {
+    const sceneSeed = useStore(state => state.sceneSeed);
+    const snowCount = useStore(state => state.sceneConfig.snow.count);
+
     // Split count into groups for variety
-    const group1Count = Math.floor(SNOW_COUNT * 0.5); // 50% Standard
-    const group2Count = Math.floor(SNOW_COUNT * 0.3); // 30% Diamond
-    const group3Count = SNOW_COUNT - group1Count - group2Count; // 20% Tiny
+    const group1Count = Math.floor(snowCount * 0.5); // 50% Standard
+    const group2Count = Math.floor(snowCount * 0.3); // 30% Diamond
+    const group3Count = snowCount - group1Count - group2Count; // 20% Tiny
 
-    const group1 = useMemo(() => generateSnowData(group1Count), [group1Count]);
-    const group2 = useMemo(() => generateSnowData(group2Count), [group2Count]);
-    const group3 = useMemo(() => generateSnowData(group3Count), [group3Count]);
+    const group1 = useMemo(() => generateSnowData(group1Count, sceneSeed, 'g1'), [group1Count, sceneSeed]);
+    const group2 = useMemo(() => generateSnowData(group2Count, sceneSeed, 'g2'), [group2Count, sceneSeed]);
+    const group3 = useMemo(() => generateSnowData(group3Count, sceneSeed, 'g3'), [group3Count, sceneSeed]);
 
     const materialProps = {
         color: "#ffffff", 
@@ -82,6 +88,7 @@ const SnowFlake: React.FC<{data: any}> = ({ data }) => {
     const pos = useRef(data.position.clone());
 
     useLayoutEffect(() => {
+        pos.current.copy(data.position);
         if(ref.current) {
             ref.current.position.copy(data.position);
             ref.current.scale.setScalar(data.scale);
@@ -98,8 +105,9 @@ const SnowFlake: React.FC<{data: any}> = ({ data }) => {
         if (pos.current.y < -10) {
             pos.current.y = 25;
             // Randomize X/Z again so they don't fall in lines
-            pos.current.x = (Math.random() - 0.5) * 40;
-            pos.current.z = (Math.random() - 0.5) * 40;
+            const random: Random = data.respawn;
+            pos.current.x = (random() - 0.5) * 40;
+            pos.current.z = (random() - 0.5) * 40;
         }
 
         // Wobble
@@ -0,0 +1,91 @@
+import { GestureType, Landmark } from '../types';
+import { ScoredGesture } from '../utils/gestureClassifier';
+
+// Synthetic 21-landmark hands (MediaPipe order, normalized image coordinates
+// with y pointing down) for tests. Each finger is either extended straight up
+// from its knuckle or curled back into the palm, which is enough to put every
+// classifier well to one side of its thresholds.
+
+export type FingerName = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+
+export type HandPose = Record<FingerName, 'extended' | 'curled'>;
+
+export interface HandPlacement {
+    x: number; // Wrist position
+    y: number;
+    scale: number; // 1 is a palm (wrist to middle knuckle) of 0.1
+}
+
+export const DEFAULT_PLACEMENT: HandPlacement = { x: 0.5, y: 0.8, scale: 1 };
+
+type Point = [number, number];
+
+const WRIST: Point = [0, 0];
+// Knuckles relative to the wrist; the middle knuckle sets the palm size
+const KNUCKLES: Record<Exclude<FingerName, 'thumb'>, Point> = {
+    index: [-0.03, -0.1],
+    middle: [0, -0.1],
+    ring: [0.03, -0.09],
+    pinky: [0.06, -0.08],
+};
+const THUMB_BASE: Point = [-0.05, -0.03];
+const SEGMENT = 0.035;
+
+const finger = (knuckle: Point, state: 'extended' | 'curled'): Point[] => {
+    const [x, y] = knuckle;
+    return state === 'extended'
+        ? [knuckle, [x, y - SEGMENT], [x, y - SEGMENT * 2], [x, y - SEGMENT * 3]]
+        // Up one segment, then folded back down over the palm
+        : [knuckle, [x, y - SEGMENT], [x, y - SEGMENT / 4], [x, y + SEGMENT / 2]];
+};
+
+const thumb = (state: 'extended' | 'curled'): Point[] => {
+    const [x, y] = THUMB_BASE;
+    return state === 'extended'
+        // Straight out to the side and up
+        ? [THUMB_BASE, [x - 0.03, y - 0.03], [x - 0.06, y - 0.06], [x - 0.09, y - 0.09]]
+        // Across the palm toward the index knuckle
+        : [THUMB_BASE, [x + 0.01, y - 0.03], [x + 0.025, y - 0.05], [x + 0.035, y - 0.06]];
+};
+
+export const createHand = (pose: HandPose, placement: Partial<HandPlacement> = {}): Landmark[] => {
+    const { x, y, scale } = { ...DEFAULT_PLACEMENT, ...placement };
+    const points: Point[] = [
+        WRIST,
+        ...thumb(pose.thumb),
+        ...finger(KNUCKLES.index, pose.index),
+        ...finger(KNUCKLES.middle, pose.middle),
+        ...finger(KNUCKLES.ring, pose.ring),
+        ...finger(KNUCKLES.pinky, pose.pinky),
+    ];
+    return points.map(([px, py]) => ({ x: x + px * scale, y: y + py * scale, z: 0 }));
+};
+
+// Thumb tip on a hooked index fingertip, the other fingers open
+export const createPinchHand = (placement: Partial<HandPlacement> = {}): Landmark[] => {
+    const hand = createHand({ thumb: 'extended', index: 'extended', middle: 'extended', ring: 'extended', pinky: 'extended' }, placement);
+    const { x, y, scale } = { ...DEFAULT_PLACEMENT, ...placement };
+    const at = (px: number, py: number): Landmark => ({ x: x + px * scale, y: y + py * scale, z: 0 });
+    [at(-0.05, -0.14), at(-0.08, -0.155), at(-0.1, -0.15)].forEach((point, i) => { hand[6 + i] = point; });
+    [at(-0.07, -0.06), at(-0.09, -0.1), at(-0.097, -0.137)].forEach((point, i) => { hand[2 + i] = point; });
+    return hand;
+};
+
+const pose = (thumbUp: boolean, ...fingers: boolean[]): HandPose => {
+    const state = (up: boolean) => up ? 'extended' as const : 'curled' as const;
+    const [index, middle, ring, pinky] = fingers.map(state);
+    return { thumb: state(thumbUp), index, middle, ring, pinky };
+};
+
+export type ClassifiedGesture = ScoredGesture | GestureType.NONE;
+
+// One hand per gesture the classifiers report; NONE is a pointing index
+// finger, which no classifier scores
+export const GESTURE_HANDS: Record<ClassifiedGesture, (placement?: Partial<HandPlacement>) => Landmark[]> = {
+    [GestureType.HEART]: placement => createHand(pose(true, true, false, false, true), placement),
+    [GestureType.VICTORY]: placement => createHand(pose(false, true, true, false, false), placement),
+    [GestureType.CLOSED_FIST]: placement => createHand(pose(false, false, false, false, false), placement),
+    [GestureType.PINCH]: createPinchHand,
+    [GestureType.OPEN_HAND]: placement => createHand(pose(true, true, true, true, true), placement),
+    [GestureType.NONE]: placement => createHand(pose(false, true, false, false, false), placement),
+};
@@ -0,0 +1,83 @@
+import { writeFileSync } from 'fs';
+import { GestureType, HandDetection, Landmark } from '../types';
+import { HandFrame, HandRecording, RECORDING_EXTENSION } from '../services/handRecording';
+import { GESTURE_HANDS, HandPlacement } from './handPoses';
+
+// Writes the hand recordings in fixtures/recordings: one per static gesture
+// and one per motion gesture, made from the synthetic poses at 30 fps instead
+// of a camera so they can be regenerated exactly.
+//
+//     npx vite-node fixtures/recordHands.ts
+
+const FRAME_MS = 33;
+const OUTPUT = new URL('./recordings/', import.meta.url);
+
+type HandAt = (frame: number) => Landmark[] | null;
+
+// MediaPipe's label for the user's right hand (it assumes a mirrored image)
+const asRightHand = (landmarks: Landmark[]): HandDetection => ({ landmarks, label: 'Left' });
+
+const record = (frameCount: number, handAt: HandAt): HandRecording => ({
+    format: 'christmas-magic-hands',
+    version: 1,
+    recordedAt: '2026-01-01T00:00:00.000Z',
+    frames: Array.from({ length: frameCount }, (_, i): HandFrame => {
+        const landmarks = handAt(i);
+        return { t: i * FRAME_MS, hands: landmarks ? [asRightHand(landmarks)] : [] };
+    }),
+});
+
+const round = (landmarks: Landmark[]) => landmarks.map(({ x, y, z }) => ({
+    x: Number(x.toFixed(4)), y: Number(y.toFixed(4)), z: Number(z.toFixed(4)),
+}));
+
+// Nobody holds perfectly still: a slow sway of a few thousandths
+const sway = (frame: number): Partial<HandPlacement> => ({
+    x: 0.5 + Math.sin(frame * 0.4) * 0.003,
+    y: 0.8 + Math.cos(frame * 0.3) * 0.003,
+});
+
+// Out of view, held for 1.2 s, out of view again
+const holdPose = (gesture: keyof typeof GESTURE_HANDS): HandRecording =>
+    record(46, i => i >= 5 && i < 41 ? round(GESTURE_HANDS[gesture](sway(i))) : null);
+
+const openHand = GESTURE_HANDS[GestureType.OPEN_HAND];
+
+// Held, then 0.45 of the frame in 0.3 s; `direction` as the user sees it in the mirrored preview
+const swipe = (direction: 1 | -1): HandRecording => record(30, i => {
+    if (i >= 27) return null;
+    const progress = Math.min(1, Math.max(0, (i - 10) / 9));
+    return round(openHand({ x: 0.5 - direction * (progress - 0.5) * 0.45 }));
+});
+
+// The pointing hand traces a full circle of the index fingertip in about a second, clockwise on screen
+const circle = (): HandRecording => record(40, i => {
+    if (i >= 36) return null;
+    const angle = (i / 30) * Math.PI * 2;
+    // Mirrored x runs the other way, so clockwise in the preview is anticlockwise in the image
+    return round(GESTURE_HANDS[GestureType.NONE]({ x: 0.5 - Math.cos(angle) * 0.12, y: 0.8 + Math.sin(angle) * 0.12 }));
+});
+
+// Held, then the palm grows half as big again in 0.3 s with the wrist in place
+const push = (): HandRecording => record(30, i => {
+    if (i >= 27) return null;
+    const progress = Math.min(1, Math.max(0, (i - 10) / 9));
+    return round(openHand({ scale: 1 + progress * 0.5 }));
+});
+
+const RECORDINGS: Record<string, HandRecording> = {
+    'heart': holdPose(GestureType.HEART),
+    'victory': holdPose(GestureType.VICTORY),
+    'closed-fist': holdPose(GestureType.CLOSED_FIST),
+    'pinch': holdPose(GestureType.PINCH),
+    'open-hand': holdPose(GestureType.OPEN_HAND),
+    'none': holdPose(GestureType.NONE),
+    'swipe-left': swipe(-1),
+    'swipe-right': swipe(1),
+    'circle': circle(),
+    'push': push(),
+};
+
+Object.entries(RECORDINGS).forEach(([name, recording]) => {
+    writeFileSync(new URL(`${name}${RECORDING_EXTENSION}`, OUTPUT), `${JSON.stringify(recording)}\n`);
+});
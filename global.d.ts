@@ -0,0 +1,10 @@
+// Browser globals the DOM typings leave out
+
+export {};
+
+declare global {
+  interface Window {
+    // Safari before 14.1 only has the prefixed constructor
+    webkitAudioContext?: typeof AudioContext;
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { AppMode } from '../types';
+import { AlbumBundleError, BUNDLE_VERSION, readAlbumBundle } from './albumBundle';
+
+const photo = {
+  id: 'a',
+  mimeType: 'image/png',
+  data: btoa('not really a png'),
+  position: [0, 1, 2],
+  scatterPosition: [3, 4, 5],
+};
+
+const bundleFile = (bundle: object) => new Blob([JSON.stringify({ format: 'christmas-magic-album', exportedAt: '', photos: [photo], ...bundle })]);
+
+describe('readAlbumBundle', () => {
+  it('reads a version 1 album, keeping its seed and scene config', async () => {
+    const album = await readAlbumBundle(bundleFile({ version: 1, mode: AppMode.TEXT, settings: { seed: 42, sceneConfig: { tree: { height: 10 } } } }));
+    expect(album.version).toBe(1);
+    expect(album.mode).toBe(AppMode.TEXT);
+    expect(album.settings).toEqual({ seed: 42, sceneConfig: { tree: { height: 10 } } });
+    expect(album.photos.map(p => p.id)).toEqual(['a']);
+  });
+
+  it('carries the gesture, camera and formation sections of the current version', async () => {
+    const settings = {
+      seed: 7,
+      gestures: { classifier: 'joint-angle', profiles: [], activeProfile: null },
+      camera: { resolution: '720p', frameRate: 30, headTracking: true },
+      formations: { saved: [], active: null },
+    };
+    const album = await readAlbumBundle(bundleFile({ version: BUNDLE_VERSION, mode: AppMode.FORMATION, settings }));
+    expect(album.settings).toEqual(settings);
+    expect(album.mode).toBe(AppMode.FORMATION);
+  });
+
+  it('rejects albums from a newer version', async () => {
+    await expect(readAlbumBundle(bundleFile({ version: BUNDLE_VERSION + 1, mode: AppMode.TREE, settings: {} })))
+      .rejects.toBeInstanceOf(AlbumBundleError);
+  });
+});
@@ -0,0 +1,209 @@
+import { AppMode, PhotoData } from '../types';
+
+// Identifies our files so a random JSON document is rejected up front
+const BUNDLE_FORMAT = 'christmas-magic-album';
+export const BUNDLE_VERSION = 2;
+export const BUNDLE_EXTENSION = '.xmastree.json';
+
+// Custom settings that travel with the album. Each feature that adds a
+// user-facing setting stores it here under its own key (see the store's
+// getAlbumSettings); keys a build does not know are ignored on import.
+export type BundleSettings = Record<string, unknown>;
+
+interface BundlePhoto {
+  id: string;
+  mimeType: string;
+  data: string; // Base64 image bytes
+  description?: string;
+  position: [number, number, number];
+  scatterPosition: [number, number, number];
+  pinnedY?: number;
+}
+
+interface AlbumBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  mode: AppMode;
+  settings: BundleSettings;
+  photos: BundlePhoto[];
+}
+
+// A photo ready to be put back into the store
+export interface ImportedPhoto {
+  id: string;
+  blob: Blob;
+  description?: string;
+  position: [number, number, number];
+  scatterPosition: [number, number, number];
+  pinnedY?: number;
+}
+
+export interface ImportedAlbum {
+  version: number;
+  mode: AppMode;
+  settings: BundleSettings;
+  photos: ImportedPhoto[];
+  // Entries that could not be restored, with a human readable reason
+  skipped: { index: number; reason: string }[];
+}
+
+// A parsed file that passed the format check; everything else is unverified
+type RawBundle = Record<string, unknown> & { version: number };
+
+export class AlbumBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlbumBundleError';
+  }
+}
+
+// Upgrades a bundle of version N to N + 1. Add an entry here whenever the
+// format changes so files exported by older builds keep loading.
+const MIGRATIONS: Record<number, (bundle: RawBundle) => RawBundle> = {
+  // Version 2 added the gestures, camera and formations settings. A version 1
+  // file has only the seed and scene config, which keep their keys, so the
+  // other settings are left as they are on import.
+  1: bundle => ({ ...bundle, version: 2 }),
+};
+
+const blobToBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+        // Remove data:image/xxx;base64, prefix
+        resolve((reader.result as string).split(',')[1]);
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+const base64ToBlob = (data: string, mimeType: string): Blob => {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isAppMode = (value: unknown): value is AppMode =>
+    Object.values(AppMode).includes(value as AppMode);
+
+const isVec3 = (value: unknown): value is [number, number, number] =>
+    Array.isArray(value) && value.length === 3 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+export const createAlbumBundle = async (
+  photos: PhotoData[],
+  mode: AppMode,
+  settings: BundleSettings = {}
+): Promise<Blob> => {
+  const entries: BundlePhoto[] = [];
+  for (const photo of photos) {
+    const blob = await (await fetch(photo.url)).blob();
+    entries.push({
+      id: photo.id,
+      mimeType: blob.type || 'image/jpeg',
+      data: await blobToBase64(blob),
+      description: photo.description,
+      position: photo.position,
+      scatterPosition: photo.scatterPosition,
+      pinnedY: photo.pinnedY,
+    });
+  }
+
+  const bundle: AlbumBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    mode,
+    settings,
+    photos: entries,
+  };
+  return new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+};
+
+export const readAlbumBundle = async (file: Blob): Promise<ImportedAlbum> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new AlbumBundleError('This file is not a tree album (it is not valid JSON). It may be truncated or corrupted.');
+  }
+
+  if (!isRecord(raw) || raw.format !== BUNDLE_FORMAT) {
+    throw new AlbumBundleError('This file is not a tree album.');
+  }
+  if (typeof raw.version !== 'number' || raw.version < 1) {
+    throw new AlbumBundleError('This album has no valid format version.');
+  }
+  if (raw.version > BUNDLE_VERSION) {
+    throw new AlbumBundleError(`This album was made by a newer version of the app (format ${raw.version}). Please update to open it.`);
+  }
+
+  const originalVersion = raw.version;
+  let bundle: RawBundle = { ...raw, version: raw.version };
+  while (bundle.version < BUNDLE_VERSION) {
+    const migrate = MIGRATIONS[bundle.version];
+    if (!migrate) {
+      throw new AlbumBundleError(`Album format ${bundle.version} is no longer supported.`);
+    }
+    bundle = migrate(bundle);
+  }
+
+  if (!Array.isArray(bundle.photos)) {
+    throw new AlbumBundleError('This album is missing its photo list.');
+  }
+
+  const photos: ImportedPhoto[] = [];
+  const skipped: ImportedAlbum['skipped'] = [];
+  const seenIds = new Set<string>();
+  bundle.photos.forEach((entry: unknown, index: number) => {
+    if (!isRecord(entry)) {
+      skipped.push({ index, reason: 'entry is empty' });
+      return;
+    }
+    if (typeof entry.data !== 'string' || entry.data.length === 0) {
+      skipped.push({ index, reason: 'image data is missing' });
+      return;
+    }
+    if (!isVec3(entry.position) || !isVec3(entry.scatterPosition)) {
+      skipped.push({ index, reason: 'position is missing or invalid' });
+      return;
+    }
+
+    let blob: Blob;
+    try {
+      blob = base64ToBlob(entry.data, typeof entry.mimeType === 'string' ? entry.mimeType : 'image/jpeg');
+    } catch {
+      skipped.push({ index, reason: 'image data is corrupted' });
+      return;
+    }
+
+    // Hand-edited files can repeat ids; the store needs them unique
+    let id = typeof entry.id === 'string' && entry.id ? entry.id : '';
+    if (!id || seenIds.has(id)) id = Math.random().toString(36).substr(2, 9);
+    seenIds.add(id);
+
+    photos.push({
+      id,
+      blob,
+      description: typeof entry.description === 'string' ? entry.description : undefined,
+      position: entry.position,
+      scatterPosition: entry.scatterPosition,
+      pinnedY: typeof entry.pinnedY === 'number' && Number.isFinite(entry.pinnedY) ? entry.pinnedY : undefined,
+    });
+  });
+
+  if (photos.length === 0 && skipped.length > 0) {
+    throw new AlbumBundleError(`None of the ${skipped.length} photos in this album could be read.`);
+  }
+
+  // The mosaic photo is not recorded, so that mode does not travel
+  const mode = isAppMode(bundle.mode) && bundle.mode !== AppMode.MOSAIC ? bundle.mode : AppMode.TREE;
+  const settings: BundleSettings = isRecord(bundle.settings) ? bundle.settings : {};
+
+  return { version: originalVersion, mode, settings, photos, skipped };
+};
@@ -0,0 +1,55 @@
+// Third-party assets the app needs at runtime. Each has a remote URL and a path
+// in the app's own output, which the offline build fills (see
+// vite-offline-assets.ts). Shared with the build, so this file imports nothing.
+
+export interface AssetSource {
+  label: string; // Named in load errors
+  local: string; // Relative to the app's base path
+  remote: string;
+}
+
+export const MEDIAPIPE_VERSION = '0.10.10';
+
+export const MEDIAPIPE_WASM: AssetSource = {
+  label: 'MediaPipe runtime',
+  local: 'mediapipe/wasm',
+  remote: `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${MEDIAPIPE_VERSION}/wasm`,
+};
+
+export const HAND_MODEL: AssetSource = {
+  label: 'hand tracking model',
+  local: 'mediapipe/hand_landmarker.task',
+  remote: 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+};
+
+export const FACE_MODEL: AssetSource = {
+  label: 'face tracking model',
+  local: 'mediapipe/face_landmarker.task',
+  remote: 'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task',
+};
+
+export const TAILWIND: AssetSource = {
+  label: 'Tailwind styles',
+  local: 'vendor/tailwind.js',
+  remote: 'https://cdn.tailwindcss.com',
+};
+
+export const FONTS: AssetSource = {
+  label: 'fonts',
+  local: 'fonts/fonts.css',
+  remote: 'https://fonts.googleapis.com/css2?family=Mountains+of+Christmas:wght@400;700&family=Inter:wght@300;400;600&display=swap',
+};
+
+// drei's "night" Environment preset, which it would fetch from GitHub
+export const NIGHT_HDR: AssetSource = {
+  label: 'night lighting',
+  local: 'environment/dikhololo_night_1k.hdr',
+  remote: 'https://raw.githack.com/pmndrs/drei-assets/456060a26bbeb8fdf79326f224b6d99b8bcce736/hdri/dikhololo_night_1k.hdr',
+};
+
+// Photo captions are drawn in the scene, so they need a font file rather than the stylesheet
+export const CAPTION_FONT: AssetSource = {
+  label: 'caption font',
+  local: 'fonts/inter.woff',
+  remote: 'https://fonts.gstatic.com/s/inter/v12/UcCO3FwrK3iLTeHuS_fvQtMwCp50KnMw2boKoduKmMEVuLyfAZ9hjp-Ek-_EeA.woff',
+};
@@ -0,0 +1,46 @@
+import { AssetSource } from './assetSources';
+
+// Where each asset in assetSources is loaded from at runtime: the bundled copy
+// when the offline build made one, else the CDN. Nothing here touches the DOM,
+// so the detection worker uses it too.
+
+// Set by the build; the offline build puts the assets under it
+const ASSET_BASE = process.env.ASSET_BASE || '/';
+
+export class AssetLoadError extends Error {
+  asset: string;
+
+  constructor(source: AssetSource, tried: string[]) {
+    super(`Could not load the ${source.label} (tried ${tried.join(', ')})`);
+    this.name = 'AssetLoadError';
+    this.asset = source.label;
+  }
+}
+
+// Bundled copy first, then the CDN. Absolute, because the worker resolves
+// relative URLs against its own script.
+export const candidateUrls = (source: AssetSource) => [
+  new URL(ASSET_BASE + source.local, self.location.href).href,
+  source.remote,
+];
+
+// Dev servers answer unknown paths with index.html, so HTML means "not here"
+export const isAsset = (response: Response) =>
+  response.ok && !(response.headers.get('content-type') ?? '').includes('text/html');
+
+const resolved = new Map<AssetSource, Promise<string>>();
+
+// The bundled copy's URL if there is one, else the remote URL, for loaders
+// that take a URL and report their own failures (the HDR, the caption font).
+// Cached, so the same promise can be handed to React's use().
+export const resolveAssetUrl = (source: AssetSource): Promise<string> => {
+  let url = resolved.get(source);
+  if (!url) {
+    const [local, remote] = candidateUrls(source);
+    url = fetch(local, { method: 'HEAD' })
+      .then(response => isAsset(response) ? local : remote)
+      .catch(() => remote);
+    resolved.set(source, url);
+  }
+  return url;
+};
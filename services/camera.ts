@@ -0,0 +1,72 @@
+import { CameraResolution, CameraSettings } from '../types';
+
+// Webcam access for hand tracking: device listing, constraints from the
+// user's settings, and errors sorted into states the UI can explain.
+
+export const RESOLUTIONS: Record<CameraResolution, { width: number; height: number }> = {
+  '480p': { width: 640, height: 480 },
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+};
+
+export const FRAME_RATES = [15, 30, 60];
+
+export type CameraFailure = 'denied' | 'no-device' | 'error';
+
+export class CameraError extends Error {
+  failure: CameraFailure;
+
+  constructor(failure: CameraFailure, message: string) {
+    super(message);
+    this.name = 'CameraError';
+    this.failure = failure;
+  }
+}
+
+const toCameraError = (error: unknown): CameraError => {
+  const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+  const message = error instanceof Error ? error.message : String(error);
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return new CameraError('denied', 'Camera access was blocked.');
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return new CameraError('no-device', 'No matching camera was found.');
+    default:
+      // NotReadableError usually means another app holds the camera
+      return new CameraError('error', `The camera could not be started: ${message}`);
+  }
+};
+
+export const openCamera = async (settings: CameraSettings): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new CameraError('no-device', 'This browser cannot access cameras.');
+  }
+  const { width, height } = RESOLUTIONS[settings.resolution];
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      video: {
+        width: { ideal: width },
+        height: { ideal: height },
+        frameRate: { ideal: settings.frameRate },
+        // A chosen camera must be that camera; otherwise prefer the front one on mobile
+        ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : { facingMode: 'user' }),
+      },
+    });
+  } catch (error) {
+    throw toCameraError(error);
+  }
+};
+
+// Labels are empty until the user has granted camera access once
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'videoinput');
+  } catch (error) {
+    console.error('Failed to list cameras:', error);
+    return [];
+  }
+};
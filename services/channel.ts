@@ -0,0 +1,25 @@
+// A minimal in-process publish/subscribe channel, for services that fan
+// events out to whoever is listening
+
+export type ChannelListener<T> = (message: T) => void;
+
+export interface Channel<T> {
+  publish: (message: T) => void;
+  // Returns an unsubscribe function
+  subscribe: (listener: ChannelListener<T>) => () => void;
+}
+
+export const createChannel = <T>(): Channel<T> => {
+  const listeners = new Set<ChannelListener<T>>();
+  return {
+    publish: (message) => {
+      listeners.forEach(listener => listener(message));
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,75 @@
+import { useStore } from '../store';
+import { AppMode, GestureAction, GestureEvent, GestureType, MotionEvent, MotionGesture } from '../types';
+import { toggleMusic } from './music';
+import { takeScreenshot } from './screenshot';
+
+const setModeAction = (mode: AppMode) => () => useStore.getState().setMode(mode);
+
+// Steps the focused photo through the album, wrapping at either end
+const stepPhoto = (step: number) => {
+  const { photos, focusedPhotoId, setFocusedPhotoId } = useStore.getState();
+  if (photos.length === 0) return;
+  const current = photos.findIndex(p => p.id === focusedPhotoId);
+  const next = current === -1
+    ? (step > 0 ? 0 : photos.length - 1)
+    : (current + step + photos.length) % photos.length;
+  setFocusedPhotoId(photos[next].id);
+};
+
+const ACTION_HANDLERS: Record<Exclude<GestureAction, 'none'>, () => void> = {
+  'mode-tree': setModeAction(AppMode.TREE),
+  'mode-scatter': setModeAction(AppMode.SCATTER),
+  'mode-text': setModeAction(AppMode.TEXT),
+  'mode-love': setModeAction(AppMode.LOVE),
+  'mode-countdown': setModeAction(AppMode.COUNTDOWN),
+  'next-photo': () => stepPhoto(1),
+  'previous-photo': () => stepPhoto(-1),
+  'toggle-music': toggleMusic,
+  'screenshot': takeScreenshot,
+};
+
+// Runs a bindable action directly, for controls other than gestures
+export const runGestureAction = (action: GestureAction) => {
+  if (action !== 'none') ACTION_HANDLERS[action]();
+};
+
+// Runs the bound action when a gesture starts (see utils/gestureStateMachine),
+// so each hold fires once. A gesture's cooldown stops it firing again too soon
+// after release; other gestures are not held up by it.
+export const createGestureDispatcher = () => {
+  let lockedUntil: Partial<Record<GestureType, number>> = {};
+
+  return {
+    handle: (event: GestureEvent, now: number) => {
+      if (event.type !== 'start' || now < (lockedUntil[event.gesture] ?? 0)) return;
+
+      const binding = useStore.getState().gestureBindings[event.gesture];
+      if (!binding || binding.action === 'none') return;
+
+      ACTION_HANDLERS[binding.action]();
+      lockedUntil[event.gesture] = now + binding.cooldown;
+    },
+    reset: () => {
+      lockedUntil = {};
+    },
+  };
+};
+
+export type GestureDispatcher = ReturnType<typeof createGestureDispatcher>;
+
+// Fixed responses to motion gestures. Circles are picked up by the tree itself,
+// which spins from `handData.motion`.
+export const runMotionAction = (event: MotionEvent) => {
+  const { focusedPhotoId, setMode } = useStore.getState();
+  switch (event.type) {
+    case MotionGesture.SWIPE_LEFT:
+      if (focusedPhotoId) stepPhoto(1);
+      break;
+    case MotionGesture.SWIPE_RIGHT:
+      if (focusedPhotoId) stepPhoto(-1);
+      break;
+    case MotionGesture.PUSH:
+      setMode(AppMode.SCATTER);
+      break;
+  }
+};
@@ -0,0 +1,11 @@
+import { GestureEvent } from '../types';
+import { createChannel } from './channel';
+
+// Gesture starts and ends from GestureDetector (live or replayed), for
+// consumers that react to a gesture changing rather than poll it every frame
+
+const gestureEvents = createChannel<GestureEvent>();
+
+export const publishGestureEvent = gestureEvents.publish;
+
+export const subscribeGestureEvents = gestureEvents.subscribe;
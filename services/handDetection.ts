@@ -0,0 +1,158 @@
+import { FaceLandmarker, HandLandmarker } from '@mediapipe/tasks-vision';
+import { HandDetection, HeadPosition } from '../types';
+import {
+  Delegate,
+  Delegated,
+  DetectionWorkerRequest,
+  DetectionWorkerResponse,
+  createFaceLandmarker,
+  createHandLandmarker,
+  createWithDelegateFallback,
+  toHandDetections,
+  toHeadPosition,
+} from './handLandmarker';
+
+// Hand detection behind one interface: in a Web Worker when the browser allows
+// it, so the render loop never waits on MediaPipe, otherwise on the main thread.
+
+export type DetectionBackend = 'worker' | 'main';
+
+export interface DetectionResult {
+  detections: HandDetection[];
+  head?: HeadPosition | null; // Only while face tracking is on and loaded; null: no face
+  frameTime: number; // performance.now() when the frame was captured
+  latency: number; // Milliseconds from capture to result
+}
+
+export interface HandDetector {
+  backend: DetectionBackend;
+  delegate: Delegate; // Where MediaPipe runs the hand model
+  // Starts detection on the current video frame. Returns false while the
+  // previous frame is still being processed, so frames never queue up.
+  submit: (video: HTMLVideoElement, frameTime: number) => boolean;
+  // Also locate the viewer's head in each frame, for the parallax camera
+  setFaceTracking: (enabled: boolean) => void;
+  close: () => void;
+}
+
+type ResultListener = (result: DetectionResult) => void;
+
+const WORKER_INIT_TIMEOUT = 20000;
+
+const postToWorker = (worker: Worker, message: DetectionWorkerRequest, transfer: Transferable[] = []) =>
+  worker.postMessage(message, transfer);
+
+const createWorkerDetector = (onResult: ResultListener): Promise<HandDetector> => new Promise((resolve, reject) => {
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap === 'undefined') {
+    reject(new Error('Web Workers with OffscreenCanvas are not supported'));
+    return;
+  }
+
+  const worker = new Worker(new URL('./handLandmarker.worker.ts', import.meta.url), { type: 'module' });
+  let ready = false;
+  let busy = false;
+  let face = false;
+
+  const fail = (error: Error) => {
+    clearTimeout(timeout);
+    worker.terminate();
+    reject(error);
+  };
+  const timeout = setTimeout(() => fail(new Error('Detection worker did not start in time')), WORKER_INIT_TIMEOUT);
+
+  worker.onerror = event => {
+    if (!ready) fail(new Error(event.message || 'Detection worker failed to load'));
+    else console.error('Detection worker error:', event.message);
+  };
+
+  worker.onmessage = ({ data }: MessageEvent<DetectionWorkerResponse>) => {
+    switch (data.type) {
+      case 'ready':
+        ready = true;
+        clearTimeout(timeout);
+        resolve({ ...detector, delegate: data.delegate });
+        break;
+      case 'error':
+        // Before 'ready' this is a failed init (e.g. no GPU delegate in workers)
+        if (!ready) fail(new Error(data.message));
+        else console.error('Hand detection failed:', data.message);
+        // Errors without a frame time are not about the frame in flight
+        if (data.time !== undefined) busy = false;
+        break;
+      case 'result':
+        busy = false;
+        onResult({ detections: data.detections, head: data.head, frameTime: data.time, latency: performance.now() - data.time });
+        break;
+    }
+  };
+
+  const detector: Omit<HandDetector, 'delegate'> = {
+    backend: 'worker',
+    submit: (video, frameTime) => {
+      if (busy) return false;
+      busy = true;
+      createImageBitmap(video)
+        .then(bitmap => postToWorker(worker, { type: 'frame', bitmap, time: frameTime, face }, [bitmap]))
+        .catch(error => {
+          busy = false;
+          console.error('Failed to capture video frame:', error);
+        });
+      return true;
+    },
+    setFaceTracking: enabled => { face = enabled; },
+    close: () => worker.terminate(),
+  };
+
+  postToWorker(worker, { type: 'init' });
+});
+
+// Singleton promises to prevent double-initialization in StrictMode
+let mainThreadLandmarker: Promise<Delegated<HandLandmarker>> | null = null;
+let mainThreadFaceLandmarker: Promise<FaceLandmarker | null> | null = null;
+
+const createMainThreadDetector = async (onResult: ResultListener): Promise<HandDetector> => {
+  if (!mainThreadLandmarker) {
+    mainThreadLandmarker = createWithDelegateFallback(createHandLandmarker).catch(error => {
+      // Reset promise on failure so it can be retried
+      mainThreadLandmarker = null;
+      throw error;
+    });
+  }
+  const { landmarker, delegate } = await mainThreadLandmarker;
+  let faceLandmarker: FaceLandmarker | null = null;
+  let face = false;
+
+  return {
+    backend: 'main',
+    delegate,
+    submit: (video, frameTime) => {
+      const detections = toHandDetections(landmarker.detectForVideo(video, frameTime));
+      const head = face && faceLandmarker ? toHeadPosition(faceLandmarker.detectForVideo(video, frameTime)) : undefined;
+      onResult({ detections, head, frameTime, latency: performance.now() - frameTime });
+      return true;
+    },
+    setFaceTracking: enabled => {
+      face = enabled;
+      if (!enabled) return;
+      // Loaded on first use; head tracking just stays off if it fails
+      if (!mainThreadFaceLandmarker) {
+        mainThreadFaceLandmarker = createWithDelegateFallback(createFaceLandmarker).then(face => face.landmarker).catch(error => {
+          console.error('Head tracking unavailable:', error);
+          return null;
+        });
+      }
+      mainThreadFaceLandmarker.then(loaded => { faceLandmarker = loaded; });
+    },
+    // Shared with later mounts; nothing to release
+    close: () => {},
+  };
+};
+
+export const createHandDetector = async (onResult: ResultListener): Promise<HandDetector> => {
+  try {
+    return await createWorkerDetector(onResult);
+  } catch (error) {
+    console.warn('Hand detection worker unavailable, using the main thread:', error);
+    return createMainThreadDetector(onResult);
+  }
+};
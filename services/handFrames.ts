@@ -0,0 +1,11 @@
+import { HandDetection } from '../types';
+import { createChannel } from './channel';
+
+// Raw landmark frames from GestureDetector (live or replayed), for tools that
+// need more than the classified gesture, such as calibration
+
+const handFrames = createChannel<HandDetection[]>();
+
+export const publishHandFrame = handFrames.publish;
+
+export const subscribeHandFrames = handFrames.subscribe;
@@ -0,0 +1,115 @@
+import { FaceLandmarker, FaceLandmarkerResult, FilesetResolver, HandLandmarker, HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { HandDetection, HeadPosition } from '../types';
+import { AssetSource, FACE_MODEL, HAND_MODEL, MEDIAPIPE_WASM } from './assetSources';
+import { AssetLoadError, candidateUrls, isAsset } from './assetUrls';
+
+// MediaPipe setup shared by the detection worker and the main-thread fallback.
+// Nothing here touches the DOM, so it runs in both.
+
+const findWasmBase = async (): Promise<string> => {
+  const bases = candidateUrls(MEDIAPIPE_WASM);
+  for (const base of bases) {
+    try {
+      if (isAsset(await fetch(`${base}/vision_wasm_internal.js`, { method: 'HEAD' }))) return base;
+    } catch {
+      // Offline or blocked; try the next source
+    }
+  }
+  throw new AssetLoadError(MEDIAPIPE_WASM, bases);
+};
+
+const fetchModel = async (model: AssetSource): Promise<Uint8Array> => {
+  const urls = candidateUrls(model);
+  for (const url of urls) {
+    try {
+      const response = await fetch(url);
+      if (isAsset(response)) return new Uint8Array(await response.arrayBuffer());
+    } catch {
+      // Offline or blocked; try the next source
+    }
+  }
+  throw new AssetLoadError(model, urls);
+};
+
+export type Delegate = 'GPU' | 'CPU';
+
+export interface Delegated<T> {
+  landmarker: T;
+  delegate: Delegate;
+}
+
+// GPU first. Without WebGL, or on a blocklisted driver, the GPU delegate fails
+// to start, so try once more on the CPU; missing assets would fail there too.
+export const createWithDelegateFallback = async <T>(create: (delegate: Delegate) => Promise<T>): Promise<Delegated<T>> => {
+  try {
+    return { landmarker: await create('GPU'), delegate: 'GPU' };
+  } catch (error) {
+    if (error instanceof AssetLoadError) throw error;
+    console.warn('MediaPipe GPU delegate unavailable, falling back to the CPU:', error);
+    return { landmarker: await create('CPU'), delegate: 'CPU' };
+  }
+};
+
+export const createHandLandmarker = async (delegate: Delegate = 'GPU'): Promise<HandLandmarker> => {
+  const [wasmBase, model] = await Promise.all([findWasmBase(), fetchModel(HAND_MODEL)]);
+  const vision = await FilesetResolver.forVisionTasks(wasmBase);
+  return HandLandmarker.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetBuffer: model,
+      delegate,
+    },
+    runningMode: 'VIDEO',
+    numHands: 2,
+    minHandDetectionConfidence: 0.6,
+    minHandPresenceConfidence: 0.6,
+    minTrackingConfidence: 0.6,
+  });
+};
+
+// Only the face's position is used, so no blendshapes or matrices
+export const createFaceLandmarker = async (delegate: Delegate = 'GPU'): Promise<FaceLandmarker> => {
+  const [wasmBase, model] = await Promise.all([findWasmBase(), fetchModel(FACE_MODEL)]);
+  const vision = await FilesetResolver.forVisionTasks(wasmBase);
+  return FaceLandmarker.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetBuffer: model,
+      delegate,
+    },
+    runningMode: 'VIDEO',
+    numFaces: 1,
+  });
+};
+
+// Midpoint between the outer eye corners, mirrored like the preview; the eye
+// distance grows as the viewer leans in
+export const toHeadPosition = (results: FaceLandmarkerResult): HeadPosition | null => {
+  const face = results.faceLandmarks?.[0];
+  if (!face) return null;
+  const left = face[33];
+  const right = face[263];
+  return {
+    x: 1 - (left.x + right.x) / 2,
+    y: (left.y + right.y) / 2,
+    size: Math.hypot(right.x - left.x, right.y - left.y),
+  };
+};
+
+export const toHandDetections = (results: HandLandmarkerResult): HandDetection[] =>
+  (results.landmarks || []).map((landmarks, i) => ({
+    landmarks,
+    label: results.handednesses?.[i]?.[0]?.categoryName,
+  }));
+
+// Messages between handDetection and the worker. `time` is the main thread's
+// performance.now() when the frame was captured; it doubles as the video
+// timestamp MediaPipe needs, and identifies which frame a result belongs to.
+// `face` asks for the head position too; `head` is left out until the face
+// landmarker has loaded.
+export type DetectionWorkerRequest =
+  | { type: 'init' }
+  | { type: 'frame'; bitmap: ImageBitmap; time: number; face: boolean };
+
+export type DetectionWorkerResponse =
+  | { type: 'ready'; delegate: Delegate }
+  | { type: 'error'; message: string; time?: number }
+  | { type: 'result'; time: number; detections: HandDetection[]; head?: HeadPosition | null };
@@ -0,0 +1,73 @@
+import { FaceLandmarker, HandLandmarker } from '@mediapipe/tasks-vision';
+import {
+  DetectionWorkerRequest,
+  DetectionWorkerResponse,
+  createFaceLandmarker,
+  createHandLandmarker,
+  createWithDelegateFallback,
+  toHandDetections,
+  toHeadPosition,
+} from './handLandmarker';
+
+// Runs hand (and optionally face) landmark detection off the main thread. Frames arrive as
+// ImageBitmaps; MediaPipe's GPU delegate draws into its own OffscreenCanvas, and
+// the CPU one takes over where that cannot start.
+
+interface WorkerScope {
+  importScripts?: (...urls: string[]) => void;
+  postMessage: (message: DetectionWorkerResponse) => void;
+  onmessage: ((event: MessageEvent<DetectionWorkerRequest>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+
+// MediaPipe loads its wasm glue with importScripts, which module workers lack.
+// Synchronous XHR is allowed in workers, so load and run the script the same way.
+if (typeof scope.importScripts !== 'function') {
+  scope.importScripts = (...urls: string[]) => urls.forEach(url => {
+    const request = new XMLHttpRequest();
+    request.open('GET', url, false);
+    request.send();
+    if (request.status !== 200) throw new Error(`Failed to load ${url} (${request.status})`);
+    // Indirect eval runs in global scope, like a classic script
+    (0, eval)(request.responseText);
+  });
+}
+
+let landmarker: HandLandmarker | null = null;
+// Loaded on the first frame that asks for the head, since most sessions never do
+let faceLandmarker: FaceLandmarker | null = null;
+let faceLoading = false;
+
+const loadFaceLandmarker = () => {
+  faceLoading = true;
+  createWithDelegateFallback(createFaceLandmarker)
+    .then(face => { faceLandmarker = face.landmarker; })
+    .catch(error => scope.postMessage({ type: 'error', message: `Head tracking unavailable: ${error instanceof Error ? error.message : error}` }));
+};
+
+scope.onmessage = async ({ data }) => {
+  if (data.type === 'init') {
+    try {
+      const hand = await createWithDelegateFallback(createHandLandmarker);
+      landmarker = hand.landmarker;
+      scope.postMessage({ type: 'ready', delegate: hand.delegate });
+    } catch (error) {
+      scope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+    return;
+  }
+
+  const { bitmap, time, face } = data;
+  try {
+    if (!landmarker) throw new Error('Hand landmarker is not ready');
+    const detections = toHandDetections(landmarker.detectForVideo(bitmap, time));
+    if (face && !faceLoading) loadFaceLandmarker();
+    const head = face && faceLandmarker ? toHeadPosition(faceLandmarker.detectForVideo(bitmap, time)) : undefined;
+    scope.postMessage({ type: 'result', time, detections, head });
+  } catch (error) {
+    scope.postMessage({ type: 'error', time, message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    bitmap.close();
+  }
+};
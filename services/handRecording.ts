@@ -0,0 +1,119 @@
+import { GestureEvent, HandDetection, Landmark } from '../types';
+import { HandPipeline, HandPipelineResult, createHandPipeline } from '../utils/handPipeline';
+
+// Recorded hand-tracking sessions: the raw landmark stream from MediaPipe with
+// timestamps, so gesture handling can be replayed without a camera (in the
+// app, or headless with replayHandRecording).
+
+const RECORDING_FORMAT = 'christmas-magic-hands';
+const RECORDING_VERSION = 1;
+export const RECORDING_EXTENSION = '.hands.json';
+
+export interface HandFrame {
+  t: number; // Milliseconds since the recording started
+  hands: HandDetection[];
+}
+
+export interface HandRecording {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  recordedAt: string;
+  frames: HandFrame[];
+}
+
+export class HandRecordingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HandRecordingError';
+  }
+}
+
+// Collects frames in memory; call finish() to get the recording
+export const createHandRecorder = () => {
+  const startedAt = performance.now();
+  const frames: HandFrame[] = [];
+
+  return {
+    push: (hands: HandDetection[]) => {
+      frames.push({
+        t: Math.round(performance.now() - startedAt),
+        // Keep only what the pipeline reads; MediaPipe objects carry extra fields
+        hands: hands.map(({ landmarks, label }) => ({
+          landmarks: landmarks.map(({ x, y, z }) => ({ x, y, z })),
+          label,
+        })),
+      });
+    },
+    get frameCount() {
+      return frames.length;
+    },
+    finish: (): HandRecording => ({
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      recordedAt: new Date().toISOString(),
+      frames,
+    }),
+  };
+};
+
+export type HandRecorder = ReturnType<typeof createHandRecorder>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isLandmark = (value: unknown): value is Landmark =>
+  isRecord(value) && [value.x, value.y, value.z].every(n => typeof n === 'number' && Number.isFinite(n));
+
+const isHandDetection = (value: unknown): value is HandDetection =>
+  isRecord(value) && Array.isArray(value.landmarks) && value.landmarks.length === 21 && value.landmarks.every(isLandmark)
+  && (value.label === undefined || typeof value.label === 'string');
+
+const isHandFrame = (value: unknown): value is HandFrame =>
+  isRecord(value) && typeof value.t === 'number' && Array.isArray(value.hands) && value.hands.every(isHandDetection);
+
+export const parseHandRecording = (text: string): HandRecording => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new HandRecordingError('This file is not a hand recording (it is not valid JSON).');
+  }
+
+  if (!isRecord(raw) || raw.format !== RECORDING_FORMAT) {
+    throw new HandRecordingError('This file is not a hand recording.');
+  }
+  if (raw.version !== RECORDING_VERSION) {
+    throw new HandRecordingError(`Unsupported hand recording version ${raw.version}.`);
+  }
+  const { frames } = raw;
+  if (!Array.isArray(frames) || frames.length === 0) {
+    throw new HandRecordingError('This hand recording has no frames.');
+  }
+
+  const invalid = frames.findIndex(frame => !isHandFrame(frame));
+  if (invalid >= 0) throw new HandRecordingError(`Frame ${invalid + 1} of the hand recording is malformed.`);
+
+  return {
+    format: RECORDING_FORMAT,
+    version: RECORDING_VERSION,
+    recordedAt: typeof raw.recordedAt === 'string' ? raw.recordedAt : '',
+    frames: frames as HandFrame[],
+  };
+};
+
+export interface HandReplay {
+  results: HandPipelineResult[]; // One per frame, in time order
+  events: GestureEvent[]; // Every gesture start and end, including those still held at the end
+}
+
+// Runs a whole recording through a pipeline at once on the recording's own
+// timeline: no camera, no animation frames, no browser.
+export const replayHandRecording = (recording: HandRecording, pipeline: HandPipeline = createHandPipeline()): HandReplay => {
+  const frames = [...recording.frames].sort((a, b) => a.t - b.t);
+  const results = frames.map(frame => pipeline.process(frame.hands, frame.t));
+  const end = frames.length > 0 ? frames[frames.length - 1].t : 0;
+  return {
+    results,
+    events: [...results.flatMap(result => result.events), ...pipeline.reset(end)],
+  };
+};
@@ -0,0 +1,16 @@
+import { InputCommand } from '../types';
+import { createChannel } from './channel';
+import { runGestureAction } from './gestureActions';
+
+// The shared input layer. Hands, mouse, touch, keyboard and gamepads all send
+// the same commands here; the scene listens without caring which device it was.
+
+const commands = createChannel<InputCommand>();
+
+export const dispatchInput = (command: InputCommand) => {
+  // Actions mean the same thing everywhere, so they run here
+  if (command.type === 'action') runGestureAction(command.action);
+  commands.publish(command);
+};
+
+export const subscribeInput = commands.subscribe;
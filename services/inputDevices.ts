@@ -0,0 +1,264 @@
+import { useStore } from '../store';
+import { GestureAction, InputCommand, InputSource } from '../types';
+import { dispatchInput } from './input';
+
+// Mouse, touch, keyboard and gamepad adapters for the shared input layer.
+// Hands are fed in by GestureDetector. Each adapter returns a cleanup function.
+
+const TAP_DISTANCE = 8; // Pixels a pointer may travel and still count as a click or tap
+const DRAG_ORBIT_SPEED = 0.005; // Radians per pixel
+const DRAG_HEIGHT_SPEED = 0.02;
+const DRAG_PAN_SPEED = 0.02;
+const WHEEL_ZOOM_SPEED = 0.001;
+
+const KEY_ORBIT_STEP = 0.1;
+const KEY_HEIGHT_STEP = 0.5;
+const KEY_ZOOM_STEP = 1.1;
+
+const STICK_DEADZONE = 0.15;
+const PAD_ORBIT_SPEED = 2; // Radians per second at full tilt
+const PAD_HEIGHT_SPEED = 6;
+const PAD_ZOOM_SPEED = 1.5;
+const PAD_CURSOR_SPEED = 0.8; // Screen widths per second
+
+const KEY_ACTIONS: Record<string, GestureAction> = {
+  '1': 'mode-tree',
+  '2': 'mode-scatter',
+  '3': 'mode-text',
+  '4': 'mode-love',
+  '5': 'mode-countdown',
+  'm': 'toggle-music',
+};
+
+// TV remotes report their back button under different names
+const BACK_KEYS = ['Escape', 'Backspace', 'GoBack', 'BrowserBack'];
+
+// Standard gamepad layout: A, B, Y, bumpers and the d-pad
+const PAD_BUTTONS: Record<number, InputCommand> = {
+  0: { type: 'select' },
+  1: { type: 'back' },
+  3: { type: 'action', action: 'toggle-music' },
+  4: { type: 'action', action: 'previous-photo' },
+  5: { type: 'action', action: 'next-photo' },
+  12: { type: 'action', action: 'mode-tree' },
+  13: { type: 'action', action: 'mode-scatter' },
+  14: { type: 'action', action: 'mode-text' },
+  15: { type: 'action', action: 'mode-love' },
+};
+
+const moveCursor = (x: number, y: number, source: InputSource) =>
+  useStore.getState().setCursor({ x: Math.min(1, Math.max(0, x)), y: Math.min(1, Math.max(0, y)), source });
+
+// Opens the photo nearest the cursor, or closes the open one
+const selectOrBack = () => dispatchInput(useStore.getState().focusedPhotoId ? { type: 'back' } : { type: 'select' });
+
+// Mouse and touch on the scene canvas: drag to orbit (right-drag pans), wheel
+// or pinch to zoom, two fingers to orbit, click or tap to open a photo
+export const startPointerInput = (canvas: HTMLCanvasElement) => {
+  const pointers = new Map<number, { x: number; y: number }>();
+  let travel = 0; // Since the first pointer went down; tells taps from drags
+  let lastPair: { distance: number; x: number; y: number } | null = null;
+
+  const pair = () => {
+    const [a, b] = [...pointers.values()];
+    return { distance: Math.hypot(a.x - b.x, a.y - b.y), x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  };
+
+  const cursorAt = (e: PointerEvent) => {
+    const rect = canvas.getBoundingClientRect();
+    moveCursor((e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height, e.pointerType === 'mouse' ? 'mouse' : 'touch');
+  };
+
+  const handleWheel = (e: WheelEvent) => {
+    e.preventDefault();
+    dispatchInput({ type: 'camera', zoom: Math.exp(e.deltaY * WHEEL_ZOOM_SPEED) });
+  };
+
+  const handlePointerDown = (e: PointerEvent) => {
+    if (pointers.size === 0) travel = 0;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.size === 2) lastPair = pair();
+    canvas.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    // The mouse cursor follows the mouse even without a button held
+    if (e.pointerType === 'mouse') cursorAt(e);
+
+    const last = pointers.get(e.pointerId);
+    if (!last) return;
+    const dx = e.clientX - last.x;
+    const dy = e.clientY - last.y;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    travel += Math.hypot(dx, dy);
+
+    if (pointers.size >= 2) {
+      // Spread to zoom in, move both fingers to orbit
+      const next = pair();
+      if (lastPair && next.distance > 0) {
+        dispatchInput({
+          type: 'camera',
+          zoom: lastPair.distance / next.distance,
+          orbit: -(next.x - lastPair.x) * DRAG_ORBIT_SPEED,
+          height: (next.y - lastPair.y) * DRAG_HEIGHT_SPEED,
+        });
+      }
+      lastPair = next;
+    } else if (e.buttons === 2 || e.buttons === 4) {
+      // Right or middle button pans
+      dispatchInput({ type: 'camera', panX: -dx * DRAG_PAN_SPEED, panY: dy * DRAG_PAN_SPEED });
+    } else {
+      dispatchInput({ type: 'camera', orbit: -dx * DRAG_ORBIT_SPEED, height: dy * DRAG_HEIGHT_SPEED });
+    }
+  };
+
+  const handlePointerUp = (e: PointerEvent) => {
+    if (!pointers.delete(e.pointerId)) return;
+    if (pointers.size < 2) lastPair = null;
+    canvas.releasePointerCapture(e.pointerId);
+
+    if (e.type === 'pointerup' && e.button === 0 && pointers.size === 0 && travel < TAP_DISTANCE) {
+      cursorAt(e);
+      selectOrBack();
+    }
+  };
+
+  const handleContextMenu = (e: Event) => e.preventDefault();
+
+  canvas.addEventListener('wheel', handleWheel, { passive: false });
+  canvas.addEventListener('pointerdown', handlePointerDown);
+  canvas.addEventListener('pointermove', handlePointerMove);
+  canvas.addEventListener('pointerup', handlePointerUp);
+  canvas.addEventListener('pointercancel', handlePointerUp);
+  canvas.addEventListener('contextmenu', handleContextMenu);
+
+  return () => {
+    canvas.removeEventListener('wheel', handleWheel);
+    canvas.removeEventListener('pointerdown', handlePointerDown);
+    canvas.removeEventListener('pointermove', handlePointerMove);
+    canvas.removeEventListener('pointerup', handlePointerUp);
+    canvas.removeEventListener('pointercancel', handlePointerUp);
+    canvas.removeEventListener('contextmenu', handleContextMenu);
+  };
+};
+
+// Keyboards and TV remotes: number keys pick a mode, arrows orbit (or browse
+// an open photo), Enter opens the photo in the middle of the view
+export const startKeyboardInput = () => {
+  const handleKeyDown = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement | null;
+    if (target && ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    const focused = !!useStore.getState().focusedPhotoId;
+    const action = KEY_ACTIONS[e.key.toLowerCase()];
+    let command: InputCommand | null = action ? { type: 'action', action } : null;
+
+    switch (e.key) {
+      case 'ArrowLeft':
+        command = focused ? { type: 'action', action: 'previous-photo' } : { type: 'camera', orbit: KEY_ORBIT_STEP };
+        break;
+      case 'ArrowRight':
+        command = focused ? { type: 'action', action: 'next-photo' } : { type: 'camera', orbit: -KEY_ORBIT_STEP };
+        break;
+      case 'ArrowUp':
+        command = { type: 'camera', height: KEY_HEIGHT_STEP };
+        break;
+      case 'ArrowDown':
+        command = { type: 'camera', height: -KEY_HEIGHT_STEP };
+        break;
+      case '+':
+      case '=':
+        command = { type: 'camera', zoom: 1 / KEY_ZOOM_STEP };
+        break;
+      case '-':
+        command = { type: 'camera', zoom: KEY_ZOOM_STEP };
+        break;
+      case 'Enter':
+      case ' ':
+        // A focused button handles these itself
+        if (target?.tagName === 'BUTTON') return;
+        if (!focused) moveCursor(0.5, 0.5, 'keyboard');
+        command = focused ? { type: 'back' } : { type: 'select' };
+        break;
+    }
+    if (BACK_KEYS.includes(e.key)) command = { type: 'back' };
+
+    if (command) {
+      e.preventDefault();
+      dispatchInput(command);
+    }
+  };
+
+  window.addEventListener('keydown', handleKeyDown);
+  return () => window.removeEventListener('keydown', handleKeyDown);
+};
+
+// Gamepads: left stick orbits, triggers zoom, right stick moves the cursor,
+// A opens and B closes photos. Polled, since the Gamepad API has no input events.
+export const startGamepadInput = () => {
+  let frame: number | null = null;
+  let lastTime = 0;
+  const wasPressed = new Map<number, boolean[]>();
+
+  const axis = (pad: Gamepad, i: number) => {
+    const value = pad.axes[i] ?? 0;
+    return Math.abs(value) < STICK_DEADZONE ? 0 : value;
+  };
+
+  const poll = (time: number) => {
+    const dt = lastTime ? Math.min((time - lastTime) / 1000, 0.1) : 0;
+    lastTime = time;
+    const pads = navigator.getGamepads().filter((pad): pad is Gamepad => !!pad);
+
+    pads.forEach(pad => {
+      const orbit = axis(pad, 0);
+      const height = axis(pad, 1);
+      const zoom = (pad.buttons[6]?.value ?? 0) - (pad.buttons[7]?.value ?? 0);
+      if (orbit || height || zoom) {
+        dispatchInput({
+          type: 'camera',
+          orbit: -orbit * PAD_ORBIT_SPEED * dt,
+          height: -height * PAD_HEIGHT_SPEED * dt,
+          zoom: Math.exp(zoom * PAD_ZOOM_SPEED * dt),
+        });
+      }
+
+      const cursorX = axis(pad, 2);
+      const cursorY = axis(pad, 3);
+      if (cursorX || cursorY) {
+        const { cursor } = useStore.getState();
+        moveCursor(cursor.x + cursorX * PAD_CURSOR_SPEED * dt, cursor.y + cursorY * PAD_CURSOR_SPEED * dt, 'gamepad');
+      }
+
+      // Buttons fire once per press
+      const previous = wasPressed.get(pad.index) ?? [];
+      pad.buttons.forEach((button, i) => {
+        if (button.pressed && !previous[i] && PAD_BUTTONS[i]) dispatchInput(PAD_BUTTONS[i]);
+      });
+      wasPressed.set(pad.index, pad.buttons.map(button => button.pressed));
+    });
+
+    // Stop polling once every pad is gone; gamepadconnected restarts it
+    frame = pads.length > 0 ? requestAnimationFrame(poll) : null;
+  };
+
+  const start = () => {
+    if (frame !== null) return;
+    lastTime = 0;
+    frame = requestAnimationFrame(poll);
+  };
+
+  window.addEventListener('gamepadconnected', start);
+  if (navigator.getGamepads?.().some(Boolean)) start();
+
+  return () => {
+    window.removeEventListener('gamepadconnected', start);
+    if (frame !== null) cancelAnimationFrame(frame);
+  };
+};
+
+export const startInputDevices = (canvas: HTMLCanvasElement) => {
+  const stops = [startPointerInput(canvas), startKeyboardInput(), startGamepadInput()];
+  return () => stops.forEach(stop => stop());
+};
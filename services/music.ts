@@ -0,0 +1,94 @@
+// Background music: a synthesized Jingle Bells loop, so there is no audio file to host
+
+// [semitones from A4, beats]
+const MELODY: [number, number][] = [
+  [7, 1], [7, 1], [7, 2],
+  [7, 1], [7, 1], [7, 2],
+  [7, 1], [10, 1], [3, 1.5], [5, 0.5], [7, 4],
+  [8, 1], [8, 1], [8, 1.5], [8, 0.5],
+  [8, 1], [7, 1], [7, 1], [7, 0.5], [7, 0.5],
+  [7, 1], [5, 1], [5, 1], [7, 1], [5, 2], [10, 2],
+];
+
+const BEAT_SECONDS = 0.28;
+const LOOP_GAP_BEATS = 2;
+const VOLUME = 0.05;
+
+let audioCtx: AudioContext | null = null;
+let output: GainNode | null = null;
+let loopTimer: ReturnType<typeof setTimeout> | null = null;
+
+const getOutput = () => {
+  if (!audioCtx) {
+    const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+    if (!AudioContextClass) return null;
+    audioCtx = new AudioContextClass();
+  }
+  if (!output) {
+    output = audioCtx.createGain();
+    output.gain.value = VOLUME;
+    output.connect(audioCtx.destination);
+  }
+  return { ctx: audioCtx, out: output };
+};
+
+// Schedules one pass of the melody and returns its length in seconds
+const scheduleMelody = (ctx: AudioContext, out: GainNode, start: number) => {
+  let time = start;
+  MELODY.forEach(([semitones, beats]) => {
+    const duration = beats * BEAT_SECONDS;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = 'triangle';
+    osc.frequency.value = 440 * Math.pow(2, semitones / 12);
+    gain.gain.setValueAtTime(0, time);
+    gain.gain.linearRampToValueAtTime(1, time + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + duration * 0.95);
+    osc.connect(gain);
+    gain.connect(out);
+    osc.start(time);
+    osc.stop(time + duration);
+    time += duration;
+  });
+  return time - start + LOOP_GAP_BEATS * BEAT_SECONDS;
+};
+
+export const isMusicPlaying = () => loopTimer !== null;
+
+export const startMusic = () => {
+  if (loopTimer) return;
+  try {
+    const audio = getOutput();
+    if (!audio) return;
+    const { ctx, out } = audio;
+    if (ctx.state === 'suspended') ctx.resume().catch(() => {});
+
+    out.gain.cancelScheduledValues(ctx.currentTime);
+    out.gain.setValueAtTime(VOLUME, ctx.currentTime);
+
+    // Queue each pass just before the previous one ends
+    let nextStart = ctx.currentTime + 0.05;
+    const loop = () => {
+      nextStart += scheduleMelody(ctx, out, nextStart);
+      loopTimer = setTimeout(loop, Math.max(0, (nextStart - ctx.currentTime - 0.5) * 1000));
+    };
+    loop();
+  } catch (error) {
+    console.error('Failed to start music:', error);
+  }
+};
+
+export const stopMusic = () => {
+  if (!loopTimer) return;
+  clearTimeout(loopTimer);
+  loopTimer = null;
+  if (audioCtx && output) {
+    // Fade out, then swap in a fresh output so queued notes stay silent
+    const old = output;
+    old.gain.setTargetAtTime(0, audioCtx.currentTime, 0.1);
+    setTimeout(() => old.disconnect(), 1000);
+    output = null;
+  }
+};
+
+export const toggleMusic = () => (isMusicPlaying() ? stopMusic() : startMusic());
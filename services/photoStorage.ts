@@ -0,0 +1,179 @@
+import { PhotoData } from '../types';
+
+const DB_NAME = 'christmas-magic';
+const DB_VERSION = 2;
+const PHOTO_STORE = 'photos';
+const SIZE_INDEX = 'size';
+
+// What actually lives in IndexedDB: the original image bytes plus everything
+// needed to put the photo back where it was. Object URLs are per-session, so
+// they are never stored.
+export interface StoredPhoto {
+  id: string;
+  blob: Blob;
+  description?: string;
+  position: [number, number, number];
+  scatterPosition: [number, number, number];
+  pinnedY?: number;
+  createdAt: number;
+  order?: number; // Album position set by manual reordering
+  size?: number;  // Blob bytes, set on every write so usage never has to read the blobs
+}
+
+export interface StorageUsage {
+  used: number;         // Bytes taken by the stored album
+  quota: number | null; // Browser quota for this origin, if it tells us
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      const store = db.objectStoreNames.contains(PHOTO_STORE)
+        ? request.transaction!.objectStore(PHOTO_STORE)
+        : db.createObjectStore(PHOTO_STORE, { keyPath: 'id' });
+      if (!store.indexNames.contains(SIZE_INDEX)) {
+        store.createIndex(SIZE_INDEX, 'size');
+      }
+      // Albums saved before sizes were recorded get them once, here
+      if (event.oldVersion > 0 && event.oldVersion < 2) {
+        const cursorRequest = store.openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          const record = cursor.value as StoredPhoto;
+          cursor.update({ ...record, size: record.blob.size });
+          cursor.continue();
+        };
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(error => {
+    // Reset so a later call can retry (e.g. after the user grants storage)
+    dbPromise = null;
+    throw error;
+  });
+
+  return dbPromise;
+};
+
+// Wraps a single-store transaction in a promise that settles on commit
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(PHOTO_STORE, mode);
+    const request = run(tx.objectStore(PHOTO_STORE));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const loadStoredPhotos = async (): Promise<StoredPhoto[]> => {
+  const records = await withStore<StoredPhoto[]>('readonly', store => store.getAll());
+  // Manually ordered photos come first, the rest keep upload order
+  return (records || []).sort((a, b) =>
+    (a.order ?? Infinity) - (b.order ?? Infinity) || a.createdAt - b.createdAt
+  );
+};
+
+export const saveStoredPhotos = async (records: StoredPhoto[]): Promise<void> => {
+  await withStore('readwrite', store => {
+    records.forEach(record => store.put({ ...record, size: record.blob.size }));
+  });
+};
+
+// Patches the metadata of already stored photos in one transaction, keeping their bytes
+export const updateStoredPhotos = async (
+  patches: Record<string, Partial<Omit<StoredPhoto, 'id'>>>
+): Promise<void> => {
+  await withStore('readwrite', store => {
+    Object.entries(patches).forEach(([id, patch]) => {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        if (!request.result) return;
+        const record: StoredPhoto = { ...request.result, ...patch };
+        store.put({ ...record, size: record.blob.size });
+      };
+    });
+  });
+};
+
+export const updateStoredPhoto = (id: string, patch: Partial<Omit<StoredPhoto, 'id'>>): Promise<void> =>
+  updateStoredPhotos({ [id]: patch });
+
+export const deleteStoredPhoto = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+// Records the current album order so a reload shows photos the same way
+export const saveStoredPhotoOrder = (ids: string[]): Promise<void> =>
+  updateStoredPhotos(Object.fromEntries(ids.map((id, order) => [id, { order }])));
+
+export const clearStoredPhotos = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear());
+};
+
+// Walks the size index by key only, so no photo bytes are read
+const sumStoredSizes = async (): Promise<number> => {
+  const db = await openDatabase();
+  return new Promise<number>((resolve, reject) => {
+    const tx = db.transaction(PHOTO_STORE, 'readonly');
+    const request = tx.objectStore(PHOTO_STORE).index(SIZE_INDEX).openKeyCursor();
+    let total = 0;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      total += cursor.key as number;
+      cursor.continue();
+    };
+    tx.oncomplete = () => resolve(total);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const used = await sumStoredSizes();
+
+  let quota: number | null = null;
+  if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+    try {
+      const estimate = await navigator.storage.estimate();
+      quota = estimate.quota ?? null;
+    } catch {
+      // Some browsers throw in private mode; the album size is still useful
+    }
+  }
+  return { used, quota };
+};
+
+export const toStoredPhoto = (photo: PhotoData, blob: Blob, createdAt: number): StoredPhoto => ({
+  id: photo.id,
+  blob,
+  description: photo.description,
+  position: photo.position,
+  scatterPosition: photo.scatterPosition,
+  pinnedY: photo.pinnedY,
+  createdAt,
+});
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
@@ -0,0 +1,24 @@
+// Saves the 3D view as a PNG. The Scene registers its canvas on creation;
+// the renderer keeps its drawing buffer so the canvas can be read between frames.
+
+let sceneCanvas: HTMLCanvasElement | null = null;
+
+export const setScreenshotSource = (canvas: HTMLCanvasElement | null) => {
+  sceneCanvas = canvas;
+};
+
+export const takeScreenshot = () => {
+  if (!sceneCanvas) return;
+  sceneCanvas.toBlob(blob => {
+    if (!blob) {
+      console.error('Screenshot failed: the canvas could not be read.');
+      return;
+    }
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `christmas-tree-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}.png`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, 'image/png');
+};
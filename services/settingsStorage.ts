@@ -0,0 +1,20 @@
+// Small user settings live in localStorage; photos go to IndexedDB (photoStorage)
+const KEY_PREFIX = 'christmas-magic:';
+
+export const loadSetting = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(KEY_PREFIX + key);
+    return raw === null ? fallback : JSON.parse(raw) as T;
+  } catch {
+    // Private mode, disabled storage or a hand-edited value
+    return fallback;
+  }
+};
+
+export const saveSetting = <T>(key: string, value: T): void => {
+  try {
+    localStorage.setItem(KEY_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to save setting "${key}":`, error);
+  }
+};
@@ -0,0 +1,159 @@
+import { DEFAULT_CAMERA_VIEW, useStore } from '../store';
+import { AppMode, CameraView, SceneConfig } from '../types';
+import { parseSeed } from '../utils/random';
+import { DEFAULT_SCENE_CONFIG, SceneConfigPatch, applySceneConfig } from '../utils/sceneConfig';
+
+// Everything a shared link can carry. Missing fields leave the app as it is.
+export interface ShareState {
+  mode?: AppMode;
+  seed?: number;
+  sceneConfig?: SceneConfig;
+  cameraView?: CameraView;
+}
+
+// Query parameter names, kept short so links survive chat apps
+const PARAM_MODE = 'mode';
+const PARAM_SEED = 'seed';
+const PARAM_CAMERA = 'cam';
+const PARAM_CONFIG = 'cfg';
+
+// FOCUS and MOSAIC depend on a local photo and FORMATION on a local image, so they cannot be shared
+const SHAREABLE_MODES = [AppMode.TREE, AppMode.SCATTER, AppMode.TEXT, AppMode.LOVE, AppMode.COUNTDOWN];
+
+const URL_SYNC_DELAY = 400;
+
+const toBase64Url = (text: string) => {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+const round = (n: number, digits: number) => Number(n.toFixed(digits));
+
+// Only fields that differ from the defaults go into the link
+const diffSceneConfig = (config: SceneConfig): SceneConfigPatch => {
+  const patch: Record<string, Record<string, unknown>> = {};
+  (Object.keys(config) as (keyof SceneConfig)[]).forEach(section => {
+    const current = config[section] as Record<string, unknown>;
+    const defaults = DEFAULT_SCENE_CONFIG[section] as Record<string, unknown>;
+    Object.keys(current).forEach(field => {
+      if (JSON.stringify(current[field]) !== JSON.stringify(defaults[field])) {
+        patch[section] = { ...patch[section], [field]: current[field] };
+      }
+    });
+  });
+  return patch as SceneConfigPatch;
+};
+
+export const serializeShareState = (state: ShareState): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (state.mode && SHAREABLE_MODES.includes(state.mode)) params.set(PARAM_MODE, state.mode.toLowerCase());
+  if (state.seed !== undefined) params.set(PARAM_SEED, String(state.seed));
+  if (state.cameraView) {
+    const { azimuth, height, zoom } = state.cameraView;
+    if (azimuth !== 0 || height !== 0 || zoom !== 1) {
+      params.set(PARAM_CAMERA, [round(azimuth, 3), round(height, 2), round(zoom, 3)].join(','));
+    }
+  }
+  if (state.sceneConfig) {
+    const patch = diffSceneConfig(state.sceneConfig);
+    if (Object.keys(patch).length > 0) params.set(PARAM_CONFIG, toBase64Url(JSON.stringify(patch)));
+  }
+  return params;
+};
+
+// Never throws: anything unreadable is left out so the app keeps its defaults
+export const parseShareState = (search: string): ShareState => {
+  const params = new URLSearchParams(search);
+  const state: ShareState = {};
+
+  const mode = params.get(PARAM_MODE)?.toUpperCase() as AppMode | undefined;
+  if (mode && SHAREABLE_MODES.includes(mode)) state.mode = mode;
+
+  const seed = parseSeed(params.get(PARAM_SEED));
+  if (seed !== null) state.seed = seed;
+
+  const camera = params.get(PARAM_CAMERA)?.split(',').map(Number);
+  if (camera && camera.length === 3 && camera.every(Number.isFinite)) {
+    state.cameraView = {
+      azimuth: camera[0],
+      height: Math.max(-10, Math.min(10, camera[1])),
+      zoom: Math.max(0.4, Math.min(2.5, camera[2])),
+    };
+  }
+
+  const config = params.get(PARAM_CONFIG);
+  if (config) {
+    try {
+      // Applied on top of the defaults so everyone sees the sender's tree
+      const { config: parsed, errors } = applySceneConfig(DEFAULT_SCENE_CONFIG, JSON.parse(fromBase64Url(config)));
+      if (errors.length > 0) console.warn('Ignored invalid settings in link:', errors);
+      state.sceneConfig = parsed;
+    } catch (error) {
+      console.warn('Ignored unreadable scene config in link:', error);
+    }
+  }
+
+  return state;
+};
+
+// Shows the linked tree without saving it over the visitor's own settings;
+// only changes they make themselves are persisted
+export const applyShareState = (state: ShareState) => {
+  const { setMode, setSceneSeed, updateSceneConfig, setCameraView } = useStore.getState();
+  if (state.seed !== undefined) setSceneSeed(state.seed, { persist: false });
+  if (state.sceneConfig) updateSceneConfig(state.sceneConfig, { persist: false });
+  if (state.cameraView) setCameraView(state.cameraView);
+  if (state.mode) setMode(state.mode);
+};
+
+const readShareState = (): ShareState => {
+  const { mode, sceneSeed, sceneConfig, cameraView } = useStore.getState();
+  return { mode, seed: sceneSeed, sceneConfig, cameraView };
+};
+
+// Applies the link the page was opened with, then keeps the address bar in
+// step with the app. Returns a cleanup function.
+export const startShareLinkSync = (): (() => void) => {
+  applyShareState(parseShareState(window.location.search));
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const writeUrl = () => {
+    timer = null;
+    const params = serializeShareState(readShareState());
+    const query = params.toString();
+    const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+    if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+      window.history.replaceState(window.history.state, '', url);
+    }
+  };
+
+  // Camera drags fire every frame; only touch history once things settle
+  const unsubscribe = useStore.subscribe((state, prev) => {
+    if (state.mode === prev.mode && state.sceneSeed === prev.sceneSeed
+      && state.sceneConfig === prev.sceneConfig && state.cameraView === prev.cameraView) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(writeUrl, URL_SYNC_DELAY);
+  });
+
+  const handlePopState = () => applyShareState({
+    cameraView: DEFAULT_CAMERA_VIEW,
+    ...parseShareState(window.location.search),
+  });
+  window.addEventListener('popstate', handlePopState);
+
+  return () => {
+    unsubscribe();
+    if (timer) clearTimeout(timer);
+    window.removeEventListener('popstate', handlePopState);
+  };
+};
+
+export const getShareUrl = (): string => {
+  const query = serializeShareState(readShareState()).toString();
+  return `${window.location.origin}${window.location.pathname}${query ? `?${query}` : ''}`;
+};
@@ -1,73 +1,540 @@
 import { create } from 'zustand';
-import { AppMode, GestureType, PhotoData, HandData } from './types';
+import { AppMode, CameraSettings, CameraView, Formation, GestureBinding, GestureBindings, GestureType, PhotoData, HandData, HeadPosition, InputCursor, SceneConfig, TrackingStatus } from './types';
+import {
+  StorageUsage,
+  clearStoredPhotos,
+  getStorageUsage,
+  loadStoredPhotos,
+  deleteStoredPhoto,
+  saveStoredPhotoOrder,
+  saveStoredPhotos,
+  toStoredPhoto,
+  updateStoredPhoto,
+  updateStoredPhotos,
+} from './services/photoStorage';
+import { BundleSettings, ImportedPhoto } from './services/albumBundle';
+import { RESOLUTIONS } from './services/camera';
+import { getPhotoHeightRange, getTreeCone, layoutPhotos } from './utils/photoLayout';
+import { DEFAULT_SCENE_CONFIG, applySceneConfig } from './utils/sceneConfig';
+import { parseSeed, randomSeed } from './utils/random';
+import { loadSetting, saveSetting } from './services/settingsStorage';
+import { DEFAULT_GESTURE_BINDINGS, sanitizeGestureBindings } from './utils/gestureBindings';
+import { GestureProfile, sanitizeGestureProfiles } from './utils/gestureCalibration';
+import { DEFAULT_CLASSIFIER_ID, DEFAULT_THRESHOLDS, GestureThresholds } from './utils/gestureClassifier';
+import { sanitizeFormations } from './utils/formation';
+
+export type AlbumStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+interface PersistOptions {
+  persist?: boolean; // Defaults to true
+}
 
 interface AppState {
   mode: AppMode;
   setMode: (mode: AppMode) => void;
-  
+
+  // Drives every random layout in the scene; same seed, same tree. Pass
+  // persist: false for state that is only being viewed, like a shared link.
+  sceneSeed: number;
+  setSceneSeed: (seed: number, options?: PersistOptions) => void;
+
+  // Tree shape, counts, colors, lights and bloom
+  sceneConfig: SceneConfig;
+  // Validates and applies a (partial) config; returns the rejected fields
+  updateSceneConfig: (patch: unknown, options?: PersistOptions) => string[];
+  resetSceneConfig: () => void;
+
   photos: PhotoData[];
-  addPhotos: (urls: string[]) => void;
+  addPhotos: (files: Blob[]) => void;
   updatePhotoDescription: (id: string, desc: string) => void;
-  
+  removePhoto: (id: string) => void;
+  replacePhoto: (id: string, file: Blob) => void;
+  movePhoto: (id: string, toIndex: number) => void;
+  pinPhotoHeight: (id: string, y: number | null) => void;
+
+  // Album persistence (IndexedDB)
+  albumStatus: AlbumStatus;
+  storageUsage: StorageUsage | null;
+  hydratePhotos: () => Promise<void>;
+  clearAlbum: () => Promise<void>;
+  replaceAlbum: (photos: ImportedPhoto[]) => Promise<void>; // Rejects if the photos could not be saved
+  refreshStorageUsage: () => Promise<void>;
+
   focusedPhotoId: string | null;
   setFocusedPhotoId: (id: string | null) => void;
 
+  // Photo MOSAIC mode rebuilds from the particles
+  mosaicPhotoId: string | null;
+  showMosaic: (id: string) => void;
+
+  // Added to the real time by the countdown, to rehearse its end; 0 is the real time
+  clockOffset: number;
+  setSimulatedTime: (time: number | null) => void;
+
+  cameraView: CameraView;
+  setCameraView: (view: CameraView) => void;
+
+  // Which gesture does what (persisted)
+  gestureBindings: GestureBindings;
+  setGestureBinding: (gesture: GestureType, binding: GestureBinding) => void;
+  resetGestureBindings: () => void;
+
+  // Registered gesture classifier to use (persisted); see utils/gestureClassifier
+  gestureClassifierId: string;
+  setGestureClassifierId: (id: string) => void;
+
+  // Calibrated classifier thresholds; null profile means the built-in defaults
+  gestureProfiles: GestureProfile[];
+  activeGestureProfile: string | null;
+  saveGestureProfile: (profile: GestureProfile) => void;
+  selectGestureProfile: (name: string | null) => void;
+  deleteGestureProfile: (name: string) => void;
+
+  // Webcam choice (persisted) and the tracker's current state
+  cameraSettings: CameraSettings;
+  updateCameraSettings: (patch: Partial<CameraSettings>) => void;
+  trackingStatus: TrackingStatus;
+  setTrackingStatus: (status: TrackingStatus) => void;
+
+  // Head-tracked parallax (persisted) and the head's latest position, null when no face is seen
+  headTracking: boolean;
+  setHeadTracking: (enabled: boolean) => void;
+  headPosition: HeadPosition | null;
+  setHeadPosition: (head: HeadPosition | null) => void;
+
+  // Shapes made from the user's images (persisted); FORMATION mode shows the active one
+  formations: Formation[];
+  activeFormationId: string | null;
+  // Adds or replaces a formation and switches to it
+  saveFormation: (formation: Formation) => void;
+  deleteFormation: (id: string) => void;
+  showFormation: (id: string) => void;
+  // Unsaved formation being edited; shown instead of the active one
+  formationPreview: Formation | null;
+  setFormationPreview: (formation: Formation | null) => void;
+
+  // The settings an album bundle carries so another device recreates this
+  // tree: seed, scene, gestures, camera format and formations. Which camera
+  // (deviceId) belongs to the machine, so it stays behind.
+  getAlbumSettings: () => BundleSettings;
+  // Applies and saves every section the bundle has, leaving missing ones
+  // alone, then shows `mode` (the tree if it needs a formation that is missing)
+  applyAlbumSettings: (settings: BundleSettings, mode: AppMode) => void;
+
+  // Live tracking output from GestureDetector
   handData: HandData;
   updateHandData: (data: Partial<HandData>) => void;
+
+  // Pointer shared by every input device, for selecting photos
+  cursor: InputCursor;
+  setCursor: (cursor: InputCursor) => void;
+  // Photo a select would open right now, highlighted before it commits
+  hoveredPhotoId: string | null;
+  setHoveredPhotoId: (id: string | null) => void;
 }
 
-export const useStore = create<AppState>((set) => ({
+// Keep the same tree across reloads; pick a new one on first visit
+const getInitialSceneSeed = () => {
+  const saved = parseSeed(loadSetting<unknown>('sceneSeed', null));
+  if (saved !== null) return saved;
+  const seed = randomSeed();
+  saveSetting('sceneSeed', seed);
+  return seed;
+};
+
+export const DEFAULT_CAMERA_VIEW: CameraView = { azimuth: 0, height: 0, zoom: 1 };
+
+// The original fixed request: front camera at 640x480
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = { deviceId: null, resolution: '480p', frameRate: 30 };
+
+const getInitialSceneConfig = () =>
+  applySceneConfig(DEFAULT_SCENE_CONFIG, loadSetting<unknown>('sceneConfig', {})).config;
+
+// Kept even if nothing is registered under it yet; it resolves to the default until then
+const getInitialGestureClassifierId = () => {
+  const saved = loadSetting<unknown>('gestureClassifier', null);
+  return typeof saved === 'string' ? saved : DEFAULT_CLASSIFIER_ID;
+};
+
+const getInitialGestureProfiles = () =>
+  sanitizeGestureProfiles(loadSetting<unknown>('gestureProfiles', []));
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+
+const createPhotoId = () => Math.random().toString(36).substr(2, 9);
+
+// Persists the positions produced by a re-layout
+const saveLayout = (photos: PhotoData[]) =>
+  updateStoredPhotos(Object.fromEntries(photos.map(p => [p.id, { position: p.position, scatterPosition: p.scatterPosition }])))
+    .catch(error => console.error('Failed to save photo layout:', error));
+
+// Drops the mosaic when its photo goes away, falling back to the tree if it was showing
+const withoutMosaic = (mode: AppMode): Pick<AppState, 'mosaicPhotoId'> & Partial<Pick<AppState, 'mode'>> =>
+  mode === AppMode.MOSAIC ? { mosaicPhotoId: null, mode: AppMode.TREE } : { mosaicPhotoId: null };
+
+export const useStore = create<AppState>((set, get) => ({
   mode: AppMode.TREE,
   setMode: (mode) => set({ mode }),
 
+  sceneSeed: getInitialSceneSeed(),
+  setSceneSeed: (seed, { persist = true } = {}) => {
+    set({ sceneSeed: seed });
+    if (persist) saveSetting('sceneSeed', seed);
+  },
+
+  sceneConfig: getInitialSceneConfig(),
+  updateSceneConfig: (patch, { persist = true } = {}) => {
+    const current = get().sceneConfig;
+    const { config, errors } = applySceneConfig(current, patch);
+    if (config === current) return errors;
+
+    set({ sceneConfig: config });
+    if (persist) saveSetting('sceneConfig', config);
+
+    // Photos hang on the cone, so a new tree shape needs a new layout
+    if (config.tree !== current.tree) {
+      const photos = layoutPhotos(get().photos, getTreeCone(config.tree));
+      set({ photos });
+      // Stored positions stay matched to the stored tree
+      if (persist) saveLayout(photos);
+    }
+    return errors;
+  },
+  resetSceneConfig: () => {
+    get().updateSceneConfig(DEFAULT_SCENE_CONFIG);
+  },
+
   photos: [],
-  addPhotos: (urls) => set((state) => {
-    // Generate data for all new photos
-    const newPhotos = urls.map(url => {
-        // New Tree Geometry: Height 12, Max Radius 4.2 (0.7 Ratio)
-        // Top is y=6, Bottom is y=-6
-        const theta = Math.random() * Math.PI * 2;
-        // Spread photos primarily in middle section, avoiding extreme top/bottom
-        const y = (Math.random() * 10) - 5; 
-        
-        // Radius calc: MaxRadius * (1 - normalizedHeight)
-        // h goes from 0 at y=-6 to 1 at y=6
-        const h = (y + 6) / 12;
-        const radiusAtY = 4.2 * (1 - h);
-        
-        // Position on surface
-        const x = radiusAtY * Math.cos(theta);
-        const z = radiusAtY * Math.sin(theta);
-
-        // Calculate scatter position (sphere)
-        const r = 10 + Math.random() * 5;
-        const phi = Math.acos(2 * Math.random() - 1);
-        const scatterX = r * Math.sin(phi) * Math.cos(theta);
-        const scatterY = r * Math.sin(phi) * Math.sin(theta);
-        const scatterZ = r * Math.cos(phi);
-
-        return {
-            id: Math.random().toString(36).substr(2, 9),
-            url,
-            position: [x, y, z] as [number, number, number],
-            scatterPosition: [scatterX, scatterY, scatterZ] as [number, number, number],
-        };
+  addPhotos: (files) => {
+    const now = Date.now();
+    const newIds = files.map(() => createPhotoId());
+    const urls = files.map(file => URL.createObjectURL(file));
+
+    // Every photo moves to make room, so lay out the whole album again
+    const photos = layoutPhotos([
+      ...get().photos,
+      ...newIds.map((id, i) => ({ id, url: urls[i], position: [0, 0, 0], scatterPosition: [0, 0, 0] } as PhotoData)),
+    ], getTreeCone(get().sceneConfig.tree));
+    set({ photos });
+
+    // Persist in the background; the in-memory album works even if this fails
+    const newPhotos = photos.filter(p => newIds.includes(p.id));
+    saveStoredPhotos(newPhotos.map((photo, i) => toStoredPhoto(photo, files[i], now + i)))
+      .then(() => saveLayout(photos))
+      .then(() => get().refreshStorageUsage())
+      .catch(error => console.error('Failed to save photos:', error));
+  },
+  updatePhotoDescription: (id, desc) => {
+    set((state) => ({
+      photos: state.photos.map(p => p.id === id ? { ...p, description: desc } : p)
+    }));
+    updateStoredPhoto(id, { description: desc })
+      .catch(error => console.error('Failed to save photo description:', error));
+  },
+  removePhoto: (id) => {
+    const photo = get().photos.find(p => p.id === id);
+    if (!photo) return;
+
+    // Drop focus first so nothing tries to animate a photo that is going away
+    const photos = layoutPhotos(get().photos.filter(p => p.id !== id), getTreeCone(get().sceneConfig.tree));
+    set((state) => ({
+      photos,
+      focusedPhotoId: state.focusedPhotoId === id ? null : state.focusedPhotoId,
+      ...(state.mosaicPhotoId === id ? withoutMosaic(state.mode) : {}),
+      handData: state.handData.pinchedId === id ? { ...state.handData, pinchedId: null } : state.handData,
+    }));
+    URL.revokeObjectURL(photo.url);
+
+    deleteStoredPhoto(id)
+      .then(() => saveLayout(photos))
+      .then(() => get().refreshStorageUsage())
+      .catch(error => console.error('Failed to delete photo:', error));
+  },
+  replacePhoto: (id, file) => {
+    const photo = get().photos.find(p => p.id === id);
+    if (!photo) return;
+
+    // The old caption described the old image, so it goes too
+    set((state) => ({
+      photos: state.photos.map(p => p.id === id ? { ...p, url: URL.createObjectURL(file), description: undefined } : p)
+    }));
+    URL.revokeObjectURL(photo.url);
+
+    updateStoredPhoto(id, { blob: file, description: undefined })
+      .then(() => get().refreshStorageUsage())
+      .catch(error => console.error('Failed to save replaced photo:', error));
+  },
+  movePhoto: (id, toIndex) => {
+    const photos = [...get().photos];
+    const fromIndex = photos.findIndex(p => p.id === id);
+    if (fromIndex === -1) return;
+
+    const target = Math.max(0, Math.min(photos.length - 1, toIndex));
+    const [moved] = photos.splice(fromIndex, 1);
+    photos.splice(target, 0, moved);
+    const laidOut = layoutPhotos(photos, getTreeCone(get().sceneConfig.tree));
+    set({ photos: laidOut });
+
+    saveStoredPhotoOrder(laidOut.map(p => p.id))
+      .then(() => saveLayout(laidOut))
+      .catch(error => console.error('Failed to save photo order:', error));
+  },
+  pinPhotoHeight: (id, y) => {
+    if (!get().photos.some(p => p.id === id)) return;
+
+    // The rest of the album flows around the pinned photo
+    const cone = getTreeCone(get().sceneConfig.tree);
+    const { minY, maxY } = getPhotoHeightRange(cone);
+    const pinnedY = y === null ? undefined : Math.max(minY, Math.min(maxY, y));
+    const photos = layoutPhotos(get().photos.map(p => p.id === id ? { ...p, pinnedY } : p), cone);
+    set({ photos });
+
+    updateStoredPhoto(id, { pinnedY })
+      .then(() => saveLayout(photos))
+      .catch(error => console.error('Failed to save pinned height:', error));
+  },
+
+  albumStatus: 'idle',
+  storageUsage: null,
+  hydratePhotos: async () => {
+    // Guard against StrictMode double-mounts and repeated calls
+    if (get().albumStatus !== 'idle') return;
+    set({ albumStatus: 'loading' });
+
+    try {
+      const records = await loadStoredPhotos();
+      const restored: PhotoData[] = records.map(record => ({
+          id: record.id,
+          url: URL.createObjectURL(record.blob),
+          description: record.description,
+          position: record.position,
+          scatterPosition: record.scatterPosition,
+          pinnedY: record.pinnedY,
+      }));
+
+      // Photos added while we were loading go after the restored ones
+      set((state) => ({
+        photos: [...restored, ...state.photos.filter(p => !restored.some(r => r.id === p.id))],
+        albumStatus: 'ready',
+      }));
+      await get().refreshStorageUsage();
+    } catch (error) {
+      console.error('Failed to restore photo album:', error);
+      set({ albumStatus: 'error' });
+    }
+  },
+  clearAlbum: async () => {
+    get().photos.forEach(photo => URL.revokeObjectURL(photo.url));
+    set({ photos: [], focusedPhotoId: null, ...withoutMosaic(get().mode) });
+
+    try {
+      await clearStoredPhotos();
+    } catch (error) {
+      console.error('Failed to clear stored photos:', error);
+    }
+    await get().refreshStorageUsage();
+  },
+  replaceAlbum: async (photos) => {
+    get().photos.forEach(photo => URL.revokeObjectURL(photo.url));
+    set({
+      photos: photos.map(photo => ({
+          id: photo.id,
+          url: URL.createObjectURL(photo.blob),
+          description: photo.description,
+          position: photo.position,
+          scatterPosition: photo.scatterPosition,
+          pinnedY: photo.pinnedY,
+      })),
+      focusedPhotoId: null,
+      ...withoutMosaic(get().mode),
     });
 
-    return {
-      photos: [
-        ...state.photos,
-        ...newPhotos
-      ],
-    };
-  }),
-  updatePhotoDescription: (id, desc) => set((state) => ({
-    photos: state.photos.map(p => p.id === id ? { ...p, description: desc } : p)
-  })),
+    // The album is shown either way; a failed save is rethrown so the import
+    // can tell the user it will not survive a reload
+    const now = Date.now();
+    try {
+      await clearStoredPhotos();
+      await saveStoredPhotos(photos.map((photo, i) => ({ ...photo, createdAt: now + i })));
+    } finally {
+      await get().refreshStorageUsage();
+    }
+  },
+  refreshStorageUsage: async () => {
+    try {
+      set({ storageUsage: await getStorageUsage() });
+    } catch (error) {
+      console.error('Failed to read storage usage:', error);
+      set({ storageUsage: null });
+    }
+  },
 
   focusedPhotoId: null,
   setFocusedPhotoId: (id) => set({ focusedPhotoId: id }),
 
-  handData: { gesture: GestureType.NONE, x: 0.5, y: 0.5 },
+  mosaicPhotoId: null,
+  // The photo leaves the focus to become the mosaic
+  showMosaic: (id) => set({ mosaicPhotoId: id, focusedPhotoId: null, mode: AppMode.MOSAIC }),
+
+  clockOffset: 0,
+  setSimulatedTime: (time) => set({ clockOffset: time === null ? 0 : time - Date.now() }),
+
+  cameraView: DEFAULT_CAMERA_VIEW,
+  setCameraView: (view) => set({ cameraView: view }),
+
+  gestureBindings: sanitizeGestureBindings(loadSetting<unknown>('gestureBindings', null)),
+  setGestureBinding: (gesture, binding) => {
+    const gestureBindings = { ...get().gestureBindings, [gesture]: binding };
+    set({ gestureBindings });
+    saveSetting('gestureBindings', gestureBindings);
+  },
+  resetGestureBindings: () => {
+    set({ gestureBindings: DEFAULT_GESTURE_BINDINGS });
+    saveSetting('gestureBindings', DEFAULT_GESTURE_BINDINGS);
+  },
+
+  gestureClassifierId: getInitialGestureClassifierId(),
+  setGestureClassifierId: (id) => {
+    set({ gestureClassifierId: id });
+    saveSetting('gestureClassifier', id);
+  },
+
+  gestureProfiles: getInitialGestureProfiles(),
+  activeGestureProfile: loadSetting<string | null>('activeGestureProfile', null),
+  // Saving under an existing name replaces that profile; the saved one becomes active
+  saveGestureProfile: (profile) => {
+    const gestureProfiles = [...get().gestureProfiles.filter(p => p.name !== profile.name), profile];
+    set({ gestureProfiles });
+    saveSetting('gestureProfiles', gestureProfiles);
+    get().selectGestureProfile(profile.name);
+  },
+  selectGestureProfile: (name) => {
+    const activeGestureProfile = get().gestureProfiles.some(p => p.name === name) ? name : null;
+    set({ activeGestureProfile });
+    saveSetting('activeGestureProfile', activeGestureProfile);
+  },
+  deleteGestureProfile: (name) => {
+    const gestureProfiles = get().gestureProfiles.filter(p => p.name !== name);
+    set({ gestureProfiles });
+    saveSetting('gestureProfiles', gestureProfiles);
+    if (get().activeGestureProfile === name) get().selectGestureProfile(null);
+  },
+
+  cameraSettings: { ...DEFAULT_CAMERA_SETTINGS, ...loadSetting<Partial<CameraSettings>>('camera', {}) },
+  updateCameraSettings: (patch) => {
+    const cameraSettings = { ...get().cameraSettings, ...patch };
+    set({ cameraSettings });
+    saveSetting('camera', cameraSettings);
+  },
+  trackingStatus: 'initializing',
+  setTrackingStatus: (status) => {
+    if (get().trackingStatus !== status) set({ trackingStatus: status });
+  },
+
+  headTracking: loadSetting<boolean>('headTracking', false) === true,
+  setHeadTracking: (enabled) => {
+    set({ headTracking: enabled });
+    saveSetting('headTracking', enabled);
+  },
+  headPosition: null,
+  setHeadPosition: (head) => set({ headPosition: head }),
+
+  formations: sanitizeFormations(loadSetting<unknown>('formations', [])),
+  activeFormationId: null,
+  saveFormation: (formation) => {
+    const existing = get().formations;
+    const formations = existing.some(f => f.id === formation.id)
+      ? existing.map(f => f.id === formation.id ? formation : f)
+      : [...existing, formation];
+    set({ formations, activeFormationId: formation.id, mode: AppMode.FORMATION });
+    saveSetting('formations', formations);
+  },
+  deleteFormation: (id) => {
+    const formations = get().formations.filter(f => f.id !== id);
+    const wasActive = get().activeFormationId === id;
+    set({ formations, ...(wasActive ? { activeFormationId: null } : {}) });
+    if (wasActive && get().mode === AppMode.FORMATION && !get().formationPreview) set({ mode: AppMode.TREE });
+    saveSetting('formations', formations);
+  },
+  showFormation: (id) => set({ activeFormationId: id, mode: AppMode.FORMATION }),
+  formationPreview: null,
+  setFormationPreview: (formation) => set({ formationPreview: formation }),
+
+  getAlbumSettings: () => {
+    const state = get();
+    return {
+      seed: state.sceneSeed,
+      sceneConfig: state.sceneConfig,
+      gestures: {
+        bindings: state.gestureBindings,
+        classifier: state.gestureClassifierId,
+        profiles: state.gestureProfiles,
+        activeProfile: state.activeGestureProfile,
+      },
+      camera: {
+        resolution: state.cameraSettings.resolution,
+        frameRate: state.cameraSettings.frameRate,
+        headTracking: state.headTracking,
+      },
+      formations: {
+        saved: state.formations,
+        active: state.activeFormationId,
+      },
+    };
+  },
+  applyAlbumSettings: (settings, mode) => {
+    const state = get();
+    const seed = parseSeed(settings.seed);
+    if (seed !== null) state.setSceneSeed(seed);
+    if (settings.sceneConfig) state.updateSceneConfig(settings.sceneConfig);
+
+    const gestures = asRecord(settings.gestures);
+    if (gestures) {
+      if (asRecord(gestures.bindings)) {
+        const gestureBindings = sanitizeGestureBindings(gestures.bindings);
+        set({ gestureBindings });
+        saveSetting('gestureBindings', gestureBindings);
+      }
+      if (typeof gestures.classifier === 'string') state.setGestureClassifierId(gestures.classifier);
+      if (Array.isArray(gestures.profiles)) {
+        const gestureProfiles = sanitizeGestureProfiles(gestures.profiles);
+        set({ gestureProfiles });
+        saveSetting('gestureProfiles', gestureProfiles);
+        state.selectGestureProfile(typeof gestures.activeProfile === 'string' ? gestures.activeProfile : null);
+      }
+    }
+
+    const camera = asRecord(settings.camera);
+    if (camera) {
+      const patch: Partial<CameraSettings> = {};
+      if (typeof camera.resolution === 'string' && camera.resolution in RESOLUTIONS) patch.resolution = camera.resolution as CameraSettings['resolution'];
+      if (typeof camera.frameRate === 'number' && Number.isFinite(camera.frameRate) && camera.frameRate > 0) patch.frameRate = camera.frameRate;
+      state.updateCameraSettings(patch);
+      if (typeof camera.headTracking === 'boolean') state.setHeadTracking(camera.headTracking);
+    }
+
+    const formationSection = asRecord(settings.formations);
+    if (formationSection && Array.isArray(formationSection.saved)) {
+      const formations = sanitizeFormations(formationSection.saved);
+      const active = formations.find(f => f.id === formationSection.active)?.id ?? null;
+      set({ formations, activeFormationId: active });
+      saveSetting('formations', formations);
+    }
+
+    set({ mode: mode === AppMode.FORMATION && !get().activeFormationId ? AppMode.TREE : mode });
+  },
+
+  handData: { gesture: GestureType.NONE, x: 0.5, y: 0.5, pinch: 0, confidence: 0, hands: [], bimanual: null, motion: null },
   updateHandData: (data) => set((state) => ({ handData: { ...state.handData, ...data } })),
-}));
\ No newline at end of file
+
+  cursor: { x: 0.5, y: 0.5, source: 'hands' },
+  setCursor: (cursor) => set({ cursor }),
+  hoveredPhotoId: null,
+  setHoveredPhotoId: (id) => {
+    if (get().hoveredPhotoId !== id) set({ hoveredPhotoId: id });
+  },
+}));
+
+// Thresholds of the active calibration profile, or the defaults
+export const selectGestureThresholds = (state: AppState): GestureThresholds =>
+  state.gestureProfiles.find(p => p.name === state.activeGestureProfile)?.thresholds ?? DEFAULT_THRESHOLDS;
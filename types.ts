@@ -3,7 +3,10 @@ export enum AppMode {
   SCATTER = 'SCATTER',
   FOCUS = 'FOCUS',
   TEXT = 'TEXT',
-  LOVE = 'LOVE'
+  LOVE = 'LOVE',
+  FORMATION = 'FORMATION', // A user's own shape; which one is the store's activeFormationId
+  MOSAIC = 'MOSAIC', // A photo rebuilt from the particles; which one is the store's mosaicPhotoId
+  COUNTDOWN = 'COUNTDOWN' // Live countdown to sceneConfig.countdown, then a New Year greeting
 }
 
 export enum GestureType {
@@ -16,17 +19,218 @@ export enum GestureType {
   HEART = 'HEART'
 }
 
+// Gestures recognised from movement rather than a held pose
+export enum MotionGesture {
+  SWIPE_LEFT = 'SWIPE_LEFT',
+  SWIPE_RIGHT = 'SWIPE_RIGHT',
+  CIRCLE = 'CIRCLE',
+  PUSH = 'PUSH'
+}
+
 export interface PhotoData {
   id: string;
   url: string;
   description?: string; // Generated by Gemini
   position: [number, number, number]; // Tree position
   scatterPosition: [number, number, number]; // Random position
+  pinnedY?: number; // Height chosen by the user, kept when the tree re-lays out
+}
+
+// One MediaPipe hand landmark, normalized to the video frame (z: depth, wrist-relative)
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Raw detector output for one hand: 21 landmarks plus MediaPipe's handedness label
+export interface HandDetection {
+  landmarks: Landmark[];
+  label?: string;
+}
+
+// The user's own left/right hand (not MediaPipe's mirrored label)
+export type Handedness = 'Left' | 'Right';
+
+export interface TrackedHand {
+  handedness: Handedness;
+  gesture: GestureType;
+  x: number; // Normalized 0-1, mirrored like the preview
+  y: number; // Normalized 0-1
+  pinch: number; // Classifier's pinch score, 0-1; a pinch registers above 0.5
+  confidence: number; // How sure the gesture state machine is of `gesture`, 0-1
+}
+
+// A hand's steady gesture starting or ending; see utils/gestureStateMachine
+export interface GestureEvent {
+  type: 'start' | 'end';
+  gesture: GestureType;
+  handedness: Handedness;
+  time: number; // Pipeline time, milliseconds
+}
+
+// Relation between both hands, present only while both are tracked
+export interface BimanualData {
+  active: boolean; // Both hands pinching: the scene is "grabbed"
+  distance: number; // Between palm centres, normalized screen units
+  angle: number; // Of the line from left to right hand, radians
+}
+
+// One completed motion gesture. Consumers react once per `id`.
+export interface MotionEvent {
+  id: number;
+  type: MotionGesture;
+  handedness: Handedness;
+  time: number; // Date.now() when recognised
+  clockwise?: boolean; // CIRCLE only
 }
 
 export interface HandData {
+  // Primary hand (right hand when both are visible); drives modes and selection
   gesture: GestureType;
   x: number; // Normalized 0-1
   y: number; // Normalized 0-1
+  pinch: number; // How close the primary hand is to pinching, 0-1
+  confidence: number; // In `gesture`, 0-1
   pinchedId?: string | null;
-}
\ No newline at end of file
+  hands: TrackedHand[];
+  bimanual: BimanualData | null;
+  motion: MotionEvent | null; // Most recent motion gesture
+}
+
+// The viewer's head in the webcam image, for the parallax camera
+export interface HeadPosition {
+  x: number; // Normalized 0-1, mirrored like the preview
+  y: number; // Normalized 0-1
+  size: number; // Distance between the eyes, normalized; larger is closer
+}
+
+// Every input device is turned into the same cursor and commands as hands
+export type InputSource = 'hands' | 'mouse' | 'touch' | 'keyboard' | 'gamepad';
+
+export interface InputCursor {
+  x: number; // Normalized 0-1, like HandData
+  y: number;
+  source: InputSource; // Device that moved it last
+}
+
+export type InputCommand =
+  | { type: 'action'; action: GestureAction }
+  | { type: 'select' } // Open the photo nearest the cursor
+  | { type: 'back' } // Close the open photo
+  // Camera deltas: orbit in radians, height and pan in world units, zoom as a factor (>1 moves away)
+  | { type: 'camera'; orbit?: number; height?: number; zoom?: number; panX?: number; panY?: number };
+
+// Where hand tracking stands, shown in the camera overlay
+export type TrackingStatus =
+  | 'initializing'
+  | 'loading-model'
+  | 'model-error' // MediaPipe runtime or hand model unreachable
+  | 'starting-camera'
+  | 'denied' // Camera permission refused
+  | 'no-device' // No camera, or the chosen one is gone
+  | 'error' // Camera busy or failed to start
+  | 'tracking'
+  | 'hand-lost';
+
+export type CameraResolution = '480p' | '720p' | '1080p';
+
+export interface CameraSettings {
+  deviceId: string | null; // null: the browser's default front camera
+  resolution: CameraResolution;
+  frameRate: number;
+}
+
+// What a gesture does when it is held
+export type GestureAction =
+  | 'none'
+  | 'mode-tree'
+  | 'mode-scatter'
+  | 'mode-text'
+  | 'mode-love'
+  | 'mode-countdown'
+  | 'next-photo'
+  | 'previous-photo'
+  | 'toggle-music'
+  | 'screenshot';
+
+export interface GestureBinding {
+  action: GestureAction;
+  cooldown: number; // Milliseconds before this gesture can trigger again
+}
+
+// Gestures without an entry do nothing
+export type GestureBindings = Partial<Record<GestureType, GestureBinding>>;
+
+// Manual camera offsets on top of the automatic camera path
+export interface CameraView {
+  azimuth: number; // Orbit angle around the tree, radians
+  height: number;  // Vertical offset
+  zoom: number;    // Distance multiplier, < 1 is closer
+}
+
+// Silhouette from an uploaded image: one bit per pixel, row by row, set where
+// particles go. Fits within the formation canvas (see utils/textFormation).
+export interface FormationMask {
+  width: number;
+  height: number;
+  bits: string; // Base64
+}
+
+export interface Formation {
+  id: string;
+  name: string;
+  mask: FormationMask;
+  depth: number; // World units the shape is extruded by
+}
+
+export type OrnamentType = 'box' | 'sphere' | 'bell' | 'pinecone' | 'stocking' | 'cane';
+
+// Everything that shapes the scene. Each section is consumed by one subsystem,
+// so changing e.g. `snow` only rebuilds the snowfall.
+export interface SceneConfig {
+  tree: {
+    height: number;
+    widthRatio: number; // Base diameter = height * widthRatio
+  };
+  particles: {
+    count: number;
+    mobileCount: number;
+    yellowRatio: number; // Share of particles that are yellow lights, 0-1
+    greenColor: string;
+    greenEmissive: string;
+    yellowColor: string;
+    yellowEmissive: string;
+  };
+  ornaments: {
+    count: number;
+    mobileCount: number;
+    weights: Record<OrnamentType, number>; // Relative probabilities
+    boxColors: string[];
+  };
+  snow: {
+    count: number;
+  };
+  lights: {
+    ambientIntensity: number;
+    redPosition: [number, number, number];
+    redColor: string;
+    greenPosition: [number, number, number];
+    greenColor: string;
+    spotPosition: [number, number, number];
+    spotIntensity: number;
+  };
+  bloom: {
+    luminanceThreshold: number;
+    intensity: number;
+    radius: number;
+  };
+  messages: {
+    text: string; // Spelled out in TEXT mode; one line per \n
+    love: string; // Names or initials for LOVE mode; the star hops between the words
+  };
+  countdown: {
+    target: string; // 'YYYY-MM-DDTHH:mm' wall-clock time; '' for the next New Year
+    timeZone: string; // IANA name the target is in; '' for the viewer's own
+  };
+}
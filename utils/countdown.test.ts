@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    BURST_DURATION,
+    NEW_YEAR_MESSAGE,
+    createClock,
+    getCountdownFrame,
+    getCountdownTarget,
+    getZonedTime,
+    parseDateTime,
+} from './countdown';
+
+const at = (iso: string) => new Date(iso).getTime();
+
+describe('getCountdownFrame', () => {
+    const target = at('2027-01-01T00:00:00Z');
+
+    it('counts days, hours, minutes and seconds', () => {
+        const now = target - ((2 * 24 + 3) * 3600 + 4 * 60 + 5) * 1000;
+        expect(getCountdownFrame(now, target)).toEqual({ phase: 'counting', message: '2 days\n03:04:05' });
+        expect(getCountdownFrame(target - 86400 * 1000, target)).toEqual({ phase: 'counting', message: '1 day\n00:00:00' });
+        expect(getCountdownFrame(target - 59 * 1000, target)).toEqual({ phase: 'counting', message: '00:00:59' });
+        expect(getCountdownFrame(target - 11 * 1000, target)).toEqual({ phase: 'counting', message: '00:00:11' });
+    });
+
+    it('shows the last ten seconds as one number, rounded up', () => {
+        expect(getCountdownFrame(target - 10 * 1000, target)).toEqual({ phase: 'final', message: '10' });
+        expect(getCountdownFrame(target - 9500, target)).toEqual({ phase: 'final', message: '10' });
+        expect(getCountdownFrame(target - 5000, target)).toEqual({ phase: 'final', message: '5' });
+        expect(getCountdownFrame(target - 1, target)).toEqual({ phase: 'final', message: '1' });
+    });
+
+    it('bursts at zero, then celebrates', () => {
+        expect(getCountdownFrame(target, target)).toEqual({ phase: 'burst', message: '' });
+        expect(getCountdownFrame(target + BURST_DURATION - 1, target)).toEqual({ phase: 'burst', message: '' });
+        expect(getCountdownFrame(target + BURST_DURATION, target)).toEqual({ phase: 'celebrate', message: NEW_YEAR_MESSAGE });
+        expect(getCountdownFrame(target + 86400 * 1000, target)).toEqual({ phase: 'celebrate', message: NEW_YEAR_MESSAGE });
+    });
+});
+
+describe('getCountdownTarget', () => {
+    const nextNewYear = (now: number, timeZone = 'UTC') => getCountdownTarget({ target: '', timeZone }, now);
+
+    it('defaults to the coming New Year', () => {
+        expect(nextNewYear(at('2026-06-15T12:00:00Z'))).toBe(at('2027-01-01T00:00:00Z'));
+        expect(nextNewYear(at('2026-12-31T23:59:59Z'))).toBe(at('2027-01-01T00:00:00Z'));
+    });
+
+    it('keeps the New Year just begun for a day', () => {
+        expect(nextNewYear(at('2027-01-01T00:00:00Z'))).toBe(at('2027-01-01T00:00:00Z'));
+        expect(nextNewYear(at('2027-01-01T23:59:00Z'))).toBe(at('2027-01-01T00:00:00Z'));
+        expect(nextNewYear(at('2027-01-02T00:00:00Z'))).toBe(at('2028-01-01T00:00:00Z'));
+    });
+
+    it('takes the New Year in the configured zone', () => {
+        // Still 31 December in New York
+        expect(nextNewYear(at('2027-01-01T03:00:00Z'), 'America/New_York')).toBe(at('2027-01-01T05:00:00Z'));
+        expect(nextNewYear(at('2026-12-31T12:00:00Z'), 'Asia/Tokyo')).toBe(at('2026-12-31T15:00:00Z'));
+    });
+
+    it('uses a configured date in its zone', () => {
+        expect(getCountdownTarget({ target: '2027-01-01T00:00', timeZone: 'Asia/Tokyo' }, at('2026-06-15T12:00:00Z')))
+            .toBe(at('2026-12-31T15:00:00Z'));
+        expect(getCountdownTarget({ target: '2026-10-31T18:30', timeZone: 'UTC' }, at('2026-06-15T12:00:00Z')))
+            .toBe(at('2026-10-31T18:30:00Z'));
+    });
+
+    it('falls back to the New Year when the configured date is not a real one', () => {
+        expect(getCountdownTarget({ target: '2026-02-30T00:00', timeZone: 'UTC' }, at('2026-06-15T12:00:00Z')))
+            .toBe(at('2027-01-01T00:00:00Z'));
+    });
+});
+
+describe('getZonedTime', () => {
+    const newYork = (value: string) => getZonedTime(parseDateTime(value)!, 'America/New_York');
+
+    it('finds the instant of a wall-clock time in an IANA zone', () => {
+        expect(newYork('2026-01-15T09:00')).toBe(at('2026-01-15T14:00:00Z'));
+        expect(newYork('2026-07-04T21:30')).toBe(at('2026-07-05T01:30:00Z'));
+        expect(getZonedTime(parseDateTime('2027-01-01T00:00')!, 'Asia/Kolkata')).toBe(at('2026-12-31T18:30:00Z'));
+    });
+
+    it('follows the offset across the spring daylight saving change', () => {
+        // Clocks go from 02:00 EST to 03:00 EDT on 8 March 2026
+        expect(newYork('2026-03-08T01:30')).toBe(at('2026-03-08T06:30:00Z'));
+        expect(newYork('2026-03-08T03:30')).toBe(at('2026-03-08T07:30:00Z'));
+    });
+
+    it('follows the offset across the autumn daylight saving change', () => {
+        // Clocks go from 02:00 EDT back to 01:00 EST on 1 November 2026
+        expect(newYork('2026-10-31T12:00')).toBe(at('2026-10-31T16:00:00Z'));
+        expect(newYork('2026-11-01T12:00')).toBe(at('2026-11-01T17:00:00Z'));
+    });
+});
+
+describe('createClock', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('runs the given offset ahead of the real time', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(at('2026-12-31T23:59:00Z'));
+        expect(createClock()()).toBe(at('2026-12-31T23:59:00Z'));
+        expect(createClock(50 * 1000)()).toBe(at('2026-12-31T23:59:50Z'));
+    });
+});
@@ -0,0 +1,98 @@
+import { SceneConfig } from '../types';
+
+// The New Year countdown: when it ends and what the particles spell at any
+// moment. Nothing here reads the real time; callers pass `now` from a Clock,
+// so the whole sequence can be played through on a simulated one.
+
+export type Clock = () => number; // Epoch milliseconds
+
+export const FINAL_SECONDS = 10; // The last stretch is one big number
+export const BURST_DURATION = 3000; // ms the particles fly apart at zero
+export const NEW_YEAR_MESSAGE = 'Happy\nNew Year';
+// How long after midnight the default target still means the year just begun
+const CELEBRATION_WINDOW = 24 * 60 * 60 * 1000;
+
+export type CountdownPhase = 'counting' | 'final' | 'burst' | 'celebrate';
+
+export interface CountdownFrame {
+    phase: CountdownPhase;
+    message: string; // What the particles spell; empty during the burst
+}
+
+// The real time shifted by `offset` ms, for rehearsing the end of a countdown
+export const createClock = (offset = 0): Clock => () => Date.now() + offset;
+
+interface DateTimeFields {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+}
+
+const DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/;
+
+// 'YYYY-MM-DDTHH:mm', as a datetime-local input gives it; null if malformed or not a real date
+export const parseDateTime = (value: string): DateTimeFields | null => {
+    const match = DATE_TIME_PATTERN.exec(value);
+    if (!match) return null;
+    const [year, month, day, hour, minute] = match.slice(1).map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day, hour, minute));
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day || hour > 23 || minute > 59) return null;
+    return { year, month, day, hour, minute };
+};
+
+export const isTimeZone = (value: string) => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: value });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// Wall-clock fields in a time zone at an instant; '' is the viewer's own zone
+const getZonedFields = (instant: number, timeZone: string): DateTimeFields => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timeZone || undefined,
+        hourCycle: 'h23',
+        year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric',
+    }).formatToParts(instant);
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+    return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute') };
+};
+
+const toUtc = (fields: DateTimeFields) => Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute);
+
+// The instant a wall-clock time happens in a time zone. The zone's offset is
+// guessed at the wall time read as UTC, then checked once more in case a
+// daylight saving change falls between the two.
+export const getZonedTime = (fields: DateTimeFields, timeZone: string): number => {
+    const wall = toUtc(fields);
+    const offsetAt = (instant: number) => toUtc(getZonedFields(instant, timeZone)) - Math.floor(instant / 60000) * 60000;
+    const guess = wall - offsetAt(wall);
+    return wall - offsetAt(guess);
+};
+
+// The configured date, or else the coming (or just begun) 1 January at midnight
+export const getCountdownTarget = (countdown: SceneConfig['countdown'], now: number): number => {
+    const fields = parseDateTime(countdown.target);
+    if (fields) return getZonedTime(fields, countdown.timeZone);
+    const { year } = getZonedFields(now - CELEBRATION_WINDOW, countdown.timeZone);
+    return getZonedTime({ year: year + 1, month: 1, day: 1, hour: 0, minute: 0 }, countdown.timeZone);
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const getCountdownFrame = (now: number, target: number): CountdownFrame => {
+    const remaining = target - now;
+    if (remaining <= -BURST_DURATION) return { phase: 'celebrate', message: NEW_YEAR_MESSAGE };
+    if (remaining <= 0) return { phase: 'burst', message: '' };
+
+    const seconds = Math.ceil(remaining / 1000);
+    if (seconds <= FINAL_SECONDS) return { phase: 'final', message: String(seconds) };
+
+    const days = Math.floor(seconds / 86400);
+    const time = `${pad(Math.floor((seconds % 86400) / 3600))}:${pad(Math.floor((seconds % 3600) / 60))}:${pad(seconds % 60)}`;
+    return { phase: 'counting', message: days > 0 ? `${days} ${days === 1 ? 'day' : 'days'}\n${time}` : time };
+};
@@ -0,0 +1,129 @@
+import { Formation, FormationMask } from '../types';
+import { Random } from './random';
+import { FORMATION_HEIGHT, FORMATION_WIDTH, FormationPixel, TEXT_DEPTH, getPixelScale, placeOnPixels } from './textFormation';
+
+// Particle layouts from the user's own images (logos, silhouettes, drawings).
+// An image is reduced to a one-bit mask once, when it is added; the mask is
+// what gets saved, and particles are placed on its set pixels like text.
+
+export const DEFAULT_FORMATION_DEPTH = TEXT_DEPTH;
+export const MAX_FORMATION_DEPTH = 4;
+const FILL = 0.94; // Share of the formation canvas the image may cover
+
+export class FormationImageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'FormationImageError';
+    }
+}
+
+export interface MaskOptions {
+    threshold: number; // How much ink a pixel needs to be part of the shape, 0-1
+    invert: boolean; // Use the background instead, e.g. a white logo on black
+}
+
+export const DEFAULT_MASK_OPTIONS: MaskOptions = { threshold: 0.5, invert: false };
+
+export interface ImageFormation {
+    positions: Float32Array; // xyz per particle
+    top: number; // World height of the shape's highest point
+}
+
+// SVG or PNG (any format the browser decodes) from a file
+export const loadFormationImage = (file: Blob): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+        URL.revokeObjectURL(url);
+        resolve(image);
+    };
+    image.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new FormationImageError('This file could not be read as an image. Try a PNG or an SVG.'));
+    };
+    image.src = url;
+});
+
+const toBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary);
+};
+
+// Images with transparency are shaped by their alpha; opaque ones (a scanned
+// drawing, a photo of a logo) by how dark each pixel is
+export const createFormationMask = (image: HTMLImageElement, options: MaskOptions = DEFAULT_MASK_OPTIONS): FormationMask => {
+    // SVGs without a size of their own report zero
+    const sourceWidth = image.naturalWidth || FORMATION_WIDTH;
+    const sourceHeight = image.naturalHeight || FORMATION_HEIGHT;
+    const fit = Math.min(FORMATION_WIDTH / sourceWidth, FORMATION_HEIGHT / sourceHeight) * FILL;
+    const width = Math.max(1, Math.round(sourceWidth * fit));
+    const height = Math.max(1, Math.round(sourceHeight * fit));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new FormationImageError('Your browser cannot process images here.');
+    ctx.drawImage(image, 0, 0, width, height);
+    const data = ctx.getImageData(0, 0, width, height).data;
+
+    let hasTransparency = false;
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] < 250) {
+            hasTransparency = true;
+            break;
+        }
+    }
+
+    const bits = new Uint8Array(Math.ceil((width * height) / 8));
+    for (let i = 0; i < width * height; i++) {
+        const alpha = data[i * 4 + 3] / 255;
+        const luminance = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+        const ink = hasTransparency ? alpha : 1 - luminance;
+        if ((options.invert ? 1 - ink : ink) >= options.threshold) bits[i >> 3] |= 1 << (i & 7);
+    }
+
+    return { width, height, bits: toBase64(bits) };
+};
+
+export const getMaskPixels = (mask: FormationMask): FormationPixel[] => {
+    const bytes = Uint8Array.from(atob(mask.bits), char => char.charCodeAt(0));
+    const pixels: FormationPixel[] = [];
+    for (let i = 0; i < mask.width * mask.height; i++) {
+        if (bytes[i >> 3] & (1 << (i & 7))) pixels.push({ x: i % mask.width, y: Math.floor(i / mask.width) });
+    }
+    return pixels;
+};
+
+export const createImageFormation = (formation: Formation, count: number, isMobile: boolean, random: Random): ImageFormation => {
+    const { width, height } = formation.mask;
+    const pixels = getMaskPixels(formation.mask);
+    const highest = pixels.length > 0 ? pixels[0].y : height / 2; // Pixels run top to bottom
+    return {
+        positions: placeOnPixels(pixels, width, height, count, isMobile, random, formation.depth),
+        top: -(highest - height / 2) * getPixelScale(isMobile),
+    };
+};
+
+const isMask = (value: unknown): value is FormationMask => {
+    if (!value || typeof value !== 'object') return false;
+    const mask = value as Record<string, unknown>;
+    return Number.isInteger(mask.width) && Number.isInteger(mask.height)
+        && (mask.width as number) > 0 && (mask.width as number) <= FORMATION_WIDTH
+        && (mask.height as number) > 0 && (mask.height as number) <= FORMATION_HEIGHT
+        && typeof mask.bits === 'string'
+        && mask.bits.length === Math.ceil(Math.ceil(((mask.width as number) * (mask.height as number)) / 8) / 3) * 4;
+};
+
+export const sanitizeFormations = (value: unknown): Formation[] => {
+    if (!Array.isArray(value)) return [];
+    return value.filter((f): f is Formation =>
+        !!f && typeof f === 'object' && typeof f.id === 'string' && typeof f.name === 'string' && isMask(f.mask)
+    ).map(f => ({
+        id: f.id,
+        name: f.name,
+        mask: f.mask,
+        depth: typeof f.depth === 'number' && f.depth >= 0 ? Math.min(f.depth, MAX_FORMATION_DEPTH) : DEFAULT_FORMATION_DEPTH,
+    }));
+};
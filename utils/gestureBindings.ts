@@ -0,0 +1,63 @@
+import { GestureAction, GestureBinding, GestureBindings, GestureType } from '../types';
+import { GESTURE_PRIORITY } from './gestureClassifier';
+
+// Gestures the classifiers can report, in the order the settings list them
+export const BINDABLE_GESTURES: GestureType[] = GESTURE_PRIORITY;
+
+export const GESTURE_NAMES: Partial<Record<GestureType, string>> = {
+  [GestureType.HEART]: 'ILY Sign',
+  [GestureType.VICTORY]: 'Victory',
+  [GestureType.CLOSED_FIST]: 'Fist',
+  [GestureType.PINCH]: 'Pinch',
+  [GestureType.OPEN_HAND]: 'Open Hand',
+};
+
+export interface GestureActionInfo {
+  label: string; // Settings dropdown
+  instruction: string; // "Fist to ..."
+  short: string; // Condensed mobile hint
+}
+
+export const GESTURE_ACTIONS: Record<GestureAction, GestureActionInfo> = {
+  'none': { label: 'Nothing', instruction: '', short: '' },
+  'mode-tree': { label: 'Tree mode', instruction: 'gather the tree', short: 'Tree' },
+  'mode-scatter': { label: 'Scatter mode', instruction: 'scatter magic', short: 'Scatter' },
+  'mode-text': { label: 'Text mode', instruction: 'make a wish', short: 'Wish' },
+  'mode-love': { label: 'Love mode', instruction: 'share the love', short: 'Love' },
+  'mode-countdown': { label: 'Countdown mode', instruction: 'count down to New Year', short: 'Countdown' },
+  'next-photo': { label: 'Next photo', instruction: 'show the next memory', short: 'Next' },
+  'previous-photo': { label: 'Previous photo', instruction: 'show the previous memory', short: 'Back' },
+  'toggle-music': { label: 'Music on/off', instruction: 'play or stop the music', short: 'Music' },
+  'screenshot': { label: 'Screenshot', instruction: 'save a picture', short: 'Photo' },
+};
+
+export const MAX_COOLDOWN = 5000;
+
+// Pinch is left free by default: it picks photos and, with both hands, grabs the scene
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+  [GestureType.HEART]: { action: 'mode-love', cooldown: 600 },
+  [GestureType.VICTORY]: { action: 'mode-text', cooldown: 600 },
+  [GestureType.CLOSED_FIST]: { action: 'mode-tree', cooldown: 600 },
+  [GestureType.PINCH]: { action: 'none', cooldown: 600 },
+  [GestureType.OPEN_HAND]: { action: 'mode-scatter', cooldown: 600 },
+};
+
+const isBinding = (value: unknown): value is GestureBinding => {
+  if (!value || typeof value !== 'object') return false;
+  const { action, cooldown } = value as Record<string, unknown>;
+  return typeof action === 'string' && action in GESTURE_ACTIONS
+    && typeof cooldown === 'number' && Number.isFinite(cooldown) && cooldown >= 0 && cooldown <= MAX_COOLDOWN;
+};
+
+// Reads a saved table, keeping the default for any gesture whose entry is missing or broken
+export const sanitizeGestureBindings = (value: unknown): GestureBindings => {
+  const saved = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  return Object.fromEntries(BINDABLE_GESTURES.map(gesture => [
+    gesture,
+    isBinding(saved[gesture]) ? saved[gesture] : DEFAULT_GESTURE_BINDINGS[gesture],
+  ]));
+};
+
+// First gesture bound to `action`, for labels like "Tree (Fist)"
+export const findGestureForAction = (bindings: GestureBindings, action: GestureAction): GestureType | undefined =>
+  BINDABLE_GESTURES.find(gesture => bindings[gesture]?.action === action);
@@ -0,0 +1,133 @@
+import { GestureType } from '../types';
+import {
+    DEFAULT_THRESHOLDS,
+    GESTURE_PRIORITY,
+    GestureThresholds,
+    HandMeasure,
+    ScoredGesture,
+    pickGesture,
+    scoreHandMeasure,
+} from './gestureClassifier';
+
+// Derives personal distance-classifier thresholds from a few seconds of each
+// pose held by the user. Pure, so a recording can be calibrated offline too.
+
+export type CalibrationSamples = Partial<Record<ScoredGesture, HandMeasure[]>>;
+
+// Share of a gesture's samples recognised as that gesture, 0-1
+export type MatchQuality = Partial<Record<ScoredGesture, number>>;
+
+export interface CalibrationResult {
+    thresholds: GestureThresholds;
+    quality: MatchQuality;
+    warnings: string[]; // Thresholds that kept their default, and why
+}
+
+// Fewer samples than this (about a second of video) are not trusted
+export const MIN_SAMPLES = 20;
+
+const percentile = (values: number[], p: number) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+    return sorted[index];
+};
+
+const lerp = (start: number, end: number, t: number) => start * (1 - t) + end * t;
+
+// Where each finger threshold sits between a curled (0) and an extended (1)
+// finger. Matches the gaps between the default ratios for a typical hand.
+const FIST_POINT = 0.33;
+const FINGER_DOWN_POINT = 0.22;
+const FINGER_UP_POINT = 0.44;
+const OPEN_POINT = 0.67;
+const PINCH_POINT = 0.3; // Between a pinch (0) and an open hand's thumb gap (1)
+const THUMB_POINT = 0.5; // Between a fist's thumb (0) and the ILY thumb (1)
+
+export const calibrateThresholds = (samples: CalibrationSamples): CalibrationResult => {
+    const thresholds = { ...DEFAULT_THRESHOLDS };
+    const warnings: string[] = [];
+    const usable = (gesture: ScoredGesture) => (samples[gesture]?.length ?? 0) >= MIN_SAMPLES;
+
+    // Finger ratios: the lowest extended finger of an open hand against the
+    // highest curled finger of a fist, with outliers trimmed
+    if (usable(GestureType.OPEN_HAND) && usable(GestureType.CLOSED_FIST)) {
+        const extended = percentile(samples[GestureType.OPEN_HAND]!.map(m => Math.min(...m.fingers)), 0.1);
+        const curled = percentile(samples[GestureType.CLOSED_FIST]!.map(m => Math.max(...m.fingers)), 0.9);
+        if (extended > curled * 1.1) {
+            thresholds.fist = lerp(curled, extended, FIST_POINT);
+            thresholds.fingerDown = lerp(curled, extended, FINGER_DOWN_POINT);
+            thresholds.fingerUp = lerp(curled, extended, FINGER_UP_POINT);
+            thresholds.open = lerp(curled, extended, OPEN_POINT);
+        } else {
+            warnings.push('Open hand and fist looked too alike; finger thresholds kept their defaults.');
+        }
+    } else {
+        warnings.push('Open hand or fist was not captured; finger thresholds kept their defaults.');
+    }
+
+    if (usable(GestureType.PINCH) && usable(GestureType.OPEN_HAND)) {
+        const closed = percentile(samples[GestureType.PINCH]!.map(m => m.pinch), 0.9);
+        const apart = percentile(samples[GestureType.OPEN_HAND]!.map(m => m.pinch), 0.1);
+        if (apart > closed * 1.2) {
+            thresholds.pinch = lerp(closed, apart, PINCH_POINT);
+        } else {
+            warnings.push('Pinch and open hand looked too alike; the pinch threshold kept its default.');
+        }
+    } else {
+        warnings.push('Pinch was not captured; the pinch threshold kept its default.');
+    }
+
+    if (usable(GestureType.HEART) && usable(GestureType.CLOSED_FIST)) {
+        const raised = percentile(samples[GestureType.HEART]!.map(m => m.thumb), 0.1);
+        const tucked = percentile(samples[GestureType.CLOSED_FIST]!.map(m => m.thumb), 0.9);
+        if (raised > tucked * 1.05) {
+            thresholds.thumbUp = lerp(tucked, raised, THUMB_POINT);
+        } else {
+            warnings.push('The ILY thumb looked like a fist thumb; the thumb threshold kept its default.');
+        }
+    } else {
+        warnings.push('ILY sign was not captured; the thumb threshold kept its default.');
+    }
+
+    return { thresholds, quality: measureMatchQuality(samples, thresholds), warnings };
+};
+
+// How often each captured pose is classified as itself under `thresholds`
+export const measureMatchQuality = (samples: CalibrationSamples, thresholds: GestureThresholds): MatchQuality => {
+    const quality: MatchQuality = {};
+    GESTURE_PRIORITY.forEach(gesture => {
+        const measures = samples[gesture];
+        if (!measures || measures.length === 0) return;
+        const hits = measures.filter(m => pickGesture(scoreHandMeasure(m, thresholds)) === gesture).length;
+        quality[gesture] = hits / measures.length;
+    });
+    return quality;
+};
+
+// A saved calibration; the user picks one by name
+export interface GestureProfile {
+    name: string;
+    thresholds: GestureThresholds;
+    quality: MatchQuality;
+    createdAt: number;
+}
+
+const isThresholds = (value: unknown): value is GestureThresholds =>
+    !!value && typeof value === 'object'
+    && (Object.keys(DEFAULT_THRESHOLDS) as (keyof GestureThresholds)[]).every(key => {
+        const n = (value as Record<string, unknown>)[key];
+        return typeof n === 'number' && Number.isFinite(n) && n > 0 && n < 10;
+    });
+
+// Drops saved profiles that are malformed or hand-edited into nonsense
+export const sanitizeGestureProfiles = (value: unknown): GestureProfile[] => {
+    if (!Array.isArray(value)) return [];
+    return value.filter((p): p is GestureProfile =>
+        !!p && typeof p === 'object' && typeof p.name === 'string' && p.name.length > 0 && isThresholds(p.thresholds)
+    ).map(p => ({
+        name: p.name,
+        thresholds: p.thresholds,
+        quality: p.quality && typeof p.quality === 'object' ? p.quality : {},
+        createdAt: typeof p.createdAt === 'number' ? p.createdAt : 0,
+    }));
+};
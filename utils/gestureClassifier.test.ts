@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { GestureType } from '../types';
+import { ClassifiedGesture, GESTURE_HANDS } from '../fixtures/handPoses';
+import {
+    DEFAULT_CLASSIFIER_ID,
+    DEFAULT_THRESHOLDS,
+    GESTURE_PRIORITY,
+    GestureClassifier,
+    GestureScores,
+    classifyGesture,
+    distanceClassifier,
+    getGestureClassifier,
+    jointAngleClassifier,
+    listGestureClassifiers,
+    pickGesture,
+    registerGestureClassifier,
+    resolveGestureClassifier,
+} from './gestureClassifier';
+
+const GESTURES = Object.keys(GESTURE_HANDS) as ClassifiedGesture[];
+
+const scoresOf = (partial: Partial<GestureScores>): GestureScores => ({
+    [GestureType.HEART]: 0,
+    [GestureType.VICTORY]: 0,
+    [GestureType.CLOSED_FIST]: 0,
+    [GestureType.PINCH]: 0,
+    [GestureType.OPEN_HAND]: 0,
+    ...partial,
+});
+
+describe.each([distanceClassifier, jointAngleClassifier])('$label classifier', classifier => {
+    it.each(GESTURES)('recognises %s', gesture => {
+        expect(classifyGesture(GESTURE_HANDS[gesture](), classifier)).toBe(gesture);
+    });
+
+    it.each(GESTURES)('recognises %s whatever the hand size and position', gesture => {
+        const landmarks = GESTURE_HANDS[gesture]({ x: 0.3, y: 0.6, scale: 0.6 });
+        expect(classifyGesture(landmarks, classifier)).toBe(gesture);
+    });
+
+    it('scores every gesture within 0-1', () => {
+        GESTURES.forEach(gesture => {
+            Object.values(classifier.score(GESTURE_HANDS[gesture]())).forEach(score => {
+                expect(score).toBeGreaterThanOrEqual(0);
+                expect(score).toBeLessThanOrEqual(1);
+            });
+        });
+    });
+});
+
+describe('pickGesture', () => {
+    it('returns NONE when nothing clears the threshold', () => {
+        expect(pickGesture(scoresOf({ [GestureType.PINCH]: 0.5, [GestureType.OPEN_HAND]: 0.2 }))).toBe(GestureType.NONE);
+    });
+
+    it('prefers the earlier gesture in GESTURE_PRIORITY when several match', () => {
+        expect(pickGesture(scoresOf({ [GestureType.CLOSED_FIST]: 0.6, [GestureType.PINCH]: 1 }))).toBe(GestureType.CLOSED_FIST);
+        expect(pickGesture(scoresOf({ [GestureType.PINCH]: 0.6, [GestureType.OPEN_HAND]: 1 }))).toBe(GestureType.PINCH);
+        expect(pickGesture(scoresOf({ [GestureType.HEART]: 0.9, [GestureType.VICTORY]: 0.9 }))).toBe(GestureType.HEART);
+    });
+
+    it('lets every gesture win when it is the only match', () => {
+        GESTURE_PRIORITY.forEach(gesture => {
+            expect(pickGesture(scoresOf({ [gesture]: 1 }))).toBe(gesture);
+        });
+    });
+
+    it('keeps a fist a fist even though its fingertips pinch', () => {
+        const scores = distanceClassifier.score(GESTURE_HANDS[GestureType.CLOSED_FIST]());
+        expect(scores[GestureType.PINCH]).toBeGreaterThan(0.5);
+        expect(pickGesture(scores)).toBe(GestureType.CLOSED_FIST);
+    });
+});
+
+describe('registerGestureClassifier', () => {
+    it('has the built-in classifiers registered, with distance as the default', () => {
+        expect(getGestureClassifier(DEFAULT_CLASSIFIER_ID)).toBe(distanceClassifier);
+        expect(getGestureClassifier(jointAngleClassifier.id)).toBe(jointAngleClassifier);
+    });
+
+    it('replaces a classifier registered under the same id', () => {
+        const always = (gesture: GestureType.VICTORY | GestureType.PINCH, id: string): GestureClassifier => ({
+            id,
+            label: `Always ${gesture}`,
+            score: () => scoresOf({ [gesture]: 1 }),
+        });
+        const count = listGestureClassifiers().length;
+
+        registerGestureClassifier(always(GestureType.VICTORY, 'test-fixed'));
+        registerGestureClassifier(always(GestureType.PINCH, 'test-fixed'));
+
+        const registered = getGestureClassifier('test-fixed');
+        expect(listGestureClassifiers()).toHaveLength(count + 1);
+        expect(registered?.label).toBe(`Always ${GestureType.PINCH}`);
+        expect(classifyGesture(GESTURE_HANDS[GestureType.OPEN_HAND](), registered)).toBe(GestureType.PINCH);
+    });
+});
+
+describe('resolveGestureClassifier', () => {
+    // So strict that no hand counts as open
+    const tight = { ...DEFAULT_THRESHOLDS, open: 10 };
+
+    it('rebuilds the distance classifier with the calibrated thresholds', () => {
+        const classifier = resolveGestureClassifier(DEFAULT_CLASSIFIER_ID, tight);
+        expect(classifier.id).toBe(DEFAULT_CLASSIFIER_ID);
+        expect(classifyGesture(GESTURE_HANDS[GestureType.OPEN_HAND](), classifier)).toBe(GestureType.NONE);
+    });
+
+    it('returns any other registered classifier unchanged', () => {
+        expect(resolveGestureClassifier(jointAngleClassifier.id, tight)).toBe(jointAngleClassifier);
+    });
+
+    it('falls back to the distance classifier for an unknown id', () => {
+        const classifier = resolveGestureClassifier('not-registered', DEFAULT_THRESHOLDS);
+        expect(classifier.id).toBe(DEFAULT_CLASSIFIER_ID);
+        expect(classifyGesture(GESTURE_HANDS[GestureType.VICTORY](), classifier)).toBe(GestureType.VICTORY);
+    });
+});
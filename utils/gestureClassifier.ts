@@ -0,0 +1,196 @@
+import { GestureType, Landmark } from '../types';
+
+// Hand pose classifiers. Each one scores every static gesture from 21 hand
+// landmarks (MediaPipe order) in 0-1; 0.5 is the decision boundary. Pure
+// functions with no browser dependencies, so they run anywhere.
+
+export type ScoredGesture =
+    | GestureType.HEART
+    | GestureType.VICTORY
+    | GestureType.CLOSED_FIST
+    | GestureType.PINCH
+    | GestureType.OPEN_HAND;
+
+export type GestureScores = Record<ScoredGesture, number>;
+
+export interface GestureClassifier {
+    id: string;
+    label: string;
+    score: (landmarks: Landmark[]) => GestureScores;
+}
+
+// Poses overlap (a fist is also a pinch), so the first match in this order wins
+export const GESTURE_PRIORITY: ScoredGesture[] = [
+    GestureType.HEART,
+    GestureType.VICTORY,
+    GestureType.CLOSED_FIST,
+    GestureType.PINCH,
+    GestureType.OPEN_HAND,
+];
+
+const MATCH_THRESHOLD = 0.5;
+
+// Landmark indices from wrist (0) out, per finger
+const FINGER_JOINTS = {
+    thumb: [1, 2, 3, 4],
+    index: [5, 6, 7, 8],
+    middle: [9, 10, 11, 12],
+    ring: [13, 14, 15, 16],
+    pinky: [17, 18, 19, 20],
+};
+
+const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
+const dist2d = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Soft comparisons: exactly 0.5 at the threshold, saturating `softness`
+// (as a fraction of the threshold) either side of it
+const SOFTNESS = 0.25;
+const softAbove = (value: number, threshold: number) =>
+    clamp01(0.5 + (value / threshold - 1) / (2 * SOFTNESS));
+const softBelow = (value: number, threshold: number) =>
+    clamp01(0.5 - (value / threshold - 1) / (2 * SOFTNESS));
+// A pose needs every condition, so it is only as strong as its weakest one
+const all = (...scores: number[]) => Math.min(...scores);
+
+// Ratios of fingertip-to-wrist (or thumb-to-index) distance to palm size.
+// The defaults suit an adult hand at arm's length; calibration derives
+// personal ones (see gestureCalibration).
+export interface GestureThresholds {
+    open: number; // Every finger beyond this: open hand
+    fist: number; // Every finger within this: fist
+    pinch: number; // Thumb and index tips closer than this: pinch
+    fingerUp: number; // Single finger counted as raised
+    fingerDown: number; // Single finger counted as folded
+    thumbUp: number; // Thumb usually shorter
+}
+
+export const DEFAULT_THRESHOLDS: GestureThresholds = {
+    open: 1.6,
+    fist: 1.3,
+    pinch: 0.5,
+    fingerUp: 1.4,
+    fingerDown: 1.2,
+    thumbUp: 0.8,
+};
+
+// Distances normalized by palm size, the inputs of the distance classifier
+export interface HandMeasure {
+    fingers: [number, number, number, number]; // Index, middle, ring, pinky
+    thumb: number;
+    pinch: number;
+}
+
+export const measureHand = (landmarks: Landmark[]): HandMeasure => {
+    const wrist = landmarks[0];
+    const handSize = dist2d(landmarks[9], wrist);
+    const [index, middle, ring, pinky] = [8, 12, 16, 20].map(i => dist2d(landmarks[i], wrist) / handSize);
+    return {
+        fingers: [index, middle, ring, pinky],
+        thumb: dist2d(landmarks[4], wrist) / handSize,
+        pinch: dist2d(landmarks[4], landmarks[8]) / handSize,
+    };
+};
+
+export const scoreHandMeasure = ({ fingers, thumb, pinch }: HandMeasure, t: GestureThresholds): GestureScores => {
+    const [index, middle, ring, pinky] = fingers;
+    const up = (d: number) => softAbove(d, t.fingerUp);
+    const down = (d: number) => softBelow(d, t.fingerDown);
+
+    return {
+        // LOVE (ILY sign): thumb, index and pinky up; middle and ring down
+        [GestureType.HEART]: all(softAbove(thumb, t.thumbUp), up(index), down(middle), down(ring), up(pinky)),
+        [GestureType.VICTORY]: all(up(index), up(middle), down(ring), down(pinky)),
+        [GestureType.CLOSED_FIST]: all(...fingers.map(d => softBelow(d, t.fist))),
+        [GestureType.PINCH]: softBelow(pinch, t.pinch),
+        [GestureType.OPEN_HAND]: all(...fingers.map(d => softAbove(d, t.open))),
+    };
+};
+
+// The original heuristics, with adjustable thresholds
+export const createDistanceClassifier = (thresholds: GestureThresholds, id = 'distance'): GestureClassifier => ({
+    id,
+    label: 'Fingertip distance',
+    score: landmarks => scoreHandMeasure(measureHand(landmarks), thresholds),
+});
+
+export const distanceClassifier = createDistanceClassifier(DEFAULT_THRESHOLDS);
+
+// Total bend along a finger in degrees; 0 is perfectly straight
+const fingerBend = (landmarks: Landmark[], joints: number[]) => {
+    let bend = 0;
+    for (let i = 1; i < joints.length - 1; i++) {
+        const [a, b, c] = [landmarks[joints[i - 1]], landmarks[joints[i]], landmarks[joints[i + 1]]];
+        const u = [b.x - a.x, b.y - a.y, b.z - a.z];
+        const v = [c.x - b.x, c.y - b.y, c.z - b.z];
+        const dot = u[0] * v[0] + u[1] * v[1] + u[2] * v[2];
+        const len = Math.hypot(...u) * Math.hypot(...v);
+        if (len > 0) bend += Math.acos(Math.max(-1, Math.min(1, dot / len))) * 180 / Math.PI;
+    }
+    return bend;
+};
+
+const STRAIGHT_BEND = 50; // Degrees of bend still counted as extended
+const CURLED_BEND = 110; // Degrees of bend counted as curled
+const THUMB_STRAIGHT_BEND = 35; // The thumb has one joint fewer to bend
+
+// Joint angles instead of distances: steadier when the hand tilts toward the
+// camera, where projected fingertip distances shrink
+export const jointAngleClassifier: GestureClassifier = {
+    id: 'joint-angle',
+    label: 'Finger joint angles',
+    score: landmarks => {
+        const bends = {
+            thumb: fingerBend(landmarks, FINGER_JOINTS.thumb),
+            index: fingerBend(landmarks, FINGER_JOINTS.index),
+            middle: fingerBend(landmarks, FINGER_JOINTS.middle),
+            ring: fingerBend(landmarks, FINGER_JOINTS.ring),
+            pinky: fingerBend(landmarks, FINGER_JOINTS.pinky),
+        };
+        const extended = (bend: number) => softBelow(bend, STRAIGHT_BEND);
+        const curled = (bend: number) => softAbove(bend, CURLED_BEND);
+        const fingers = [bends.index, bends.middle, bends.ring, bends.pinky];
+
+        const { pinch } = measureHand(landmarks);
+
+        return {
+            [GestureType.HEART]: all(softBelow(bends.thumb, THUMB_STRAIGHT_BEND), extended(bends.index), curled(bends.middle), curled(bends.ring), extended(bends.pinky)),
+            [GestureType.VICTORY]: all(extended(bends.index), extended(bends.middle), curled(bends.ring), curled(bends.pinky)),
+            [GestureType.CLOSED_FIST]: all(...fingers.map(curled)),
+            [GestureType.PINCH]: softBelow(pinch, DEFAULT_THRESHOLDS.pinch),
+            [GestureType.OPEN_HAND]: all(...fingers.map(extended)),
+        };
+    },
+};
+
+const registry = new Map<string, GestureClassifier>();
+
+// Replaces any classifier already registered under the same id
+export const registerGestureClassifier = (classifier: GestureClassifier) => {
+    registry.set(classifier.id, classifier);
+};
+
+export const getGestureClassifier = (id: string): GestureClassifier | undefined => registry.get(id);
+
+export const listGestureClassifiers = (): GestureClassifier[] => Array.from(registry.values());
+
+registerGestureClassifier(distanceClassifier);
+registerGestureClassifier(jointAngleClassifier);
+
+export const DEFAULT_CLASSIFIER_ID = distanceClassifier.id;
+
+// The registered classifier with this id, or the default if there is none.
+// Calibrated thresholds only mean something to the distance classifier, so
+// only it is rebuilt with them.
+export const resolveGestureClassifier = (id: string, thresholds: GestureThresholds): GestureClassifier => {
+    const classifier = getGestureClassifier(id) ?? distanceClassifier;
+    return classifier === distanceClassifier ? createDistanceClassifier(thresholds) : classifier;
+};
+
+// Highest-priority gesture whose score clears the threshold
+export const pickGesture = (scores: GestureScores): GestureType =>
+    GESTURE_PRIORITY.find(gesture => scores[gesture] > MATCH_THRESHOLD) ?? GestureType.NONE;
+
+export const classifyGesture = (
+    landmarks: Landmark[],
+    classifier: GestureClassifier = distanceClassifier
+): GestureType => pickGesture(classifier.score(landmarks));
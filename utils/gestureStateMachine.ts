@@ -0,0 +1,108 @@
+import { GestureType } from '../types';
+import { GESTURE_PRIORITY, GestureScores, ScoredGesture } from './gestureClassifier';
+
+// Turns per-frame classifier scores into a steady gesture for one hand.
+//
+// Each gesture has its own enter and exit confidence: a gesture must score
+// above `enter` for `enterDwell` ms before it starts, then holds until its
+// score falls below the lower `exit` (and it has lasted `minHold` ms). While
+// one gesture holds, a competitor cannot take over, which is what stops a
+// tight fist flickering into a pinch. Starts and ends come out as transitions.
+
+export interface GestureStateConfig {
+    enter: number; // Score needed to start, 0-1
+    exit: number; // Score below which it ends; lower than `enter`
+    enterDwell: number; // Milliseconds above `enter` before it starts
+    minHold: number; // Milliseconds it lasts at least once started
+}
+
+export const GESTURE_STATE_CONFIG: Record<ScoredGesture, GestureStateConfig> = {
+    [GestureType.HEART]: { enter: 0.6, exit: 0.4, enterDwell: 150, minHold: 200 },
+    [GestureType.VICTORY]: { enter: 0.6, exit: 0.4, enterDwell: 150, minHold: 200 },
+    [GestureType.CLOSED_FIST]: { enter: 0.65, exit: 0.4, enterDwell: 150, minHold: 250 },
+    [GestureType.PINCH]: { enter: 0.6, exit: 0.35, enterDwell: 80, minHold: 250 },
+    // A hand being lowered or raised passes through an open pose; make it wait
+    [GestureType.OPEN_HAND]: { enter: 0.7, exit: 0.45, enterDwell: 250, minHold: 200 },
+};
+
+// Per-frame score smoothing; higher follows the raw scores more closely
+const SCORE_SMOOTHING = 0.5;
+
+export interface GestureTransition {
+    type: 'start' | 'end';
+    gesture: ScoredGesture;
+}
+
+export interface GestureState {
+    gesture: GestureType;
+    confidence: number; // Smoothed score of `gesture`; for NONE, how far the best one is from starting
+    transitions: GestureTransition[];
+}
+
+export interface GestureStateMachine {
+    update: (scores: GestureScores, time: number) => GestureState;
+    // Ends the current gesture, e.g. when the hand leaves the frame
+    reset: () => GestureTransition[];
+}
+
+export const createGestureStateMachine = (
+    config: Record<ScoredGesture, GestureStateConfig> = GESTURE_STATE_CONFIG
+): GestureStateMachine => {
+    let smoothed: GestureScores | null = null;
+    let current: ScoredGesture | null = null;
+    let startedAt = 0;
+    let candidate: ScoredGesture | null = null;
+    let candidateSince = 0;
+
+    const update = (scores: GestureScores, time: number): GestureState => {
+        const previous = smoothed;
+        smoothed = previous
+            ? GESTURE_PRIORITY.reduce((acc, g) => {
+                acc[g] = previous[g] + (scores[g] - previous[g]) * SCORE_SMOOTHING;
+                return acc;
+            }, {} as GestureScores)
+            : { ...scores };
+        const s = smoothed;
+        const transitions: GestureTransition[] = [];
+
+        if (current && s[current] < config[current].exit && time - startedAt >= config[current].minHold) {
+            transitions.push({ type: 'end', gesture: current });
+            current = null;
+        }
+
+        // Strongest gesture clearing its enter threshold; ties go by priority
+        const contender = GESTURE_PRIORITY
+            .filter(g => g !== current && s[g] >= config[g].enter)
+            .reduce<ScoredGesture | null>((best, g) => best === null || s[g] > s[best] ? g : best, null);
+        if (contender !== candidate) {
+            candidate = contender;
+            candidateSince = time;
+        }
+
+        // Dwell counts even while another gesture holds, so a switch is immediate once it ends
+        if (!current && candidate && time - candidateSince >= config[candidate].enterDwell) {
+            current = candidate;
+            startedAt = time;
+            candidate = null;
+            transitions.push({ type: 'start', gesture: current });
+        }
+
+        const best = GESTURE_PRIORITY.reduce((max, g) => Math.max(max, s[g] / config[g].enter), 0);
+        return {
+            gesture: current ?? GestureType.NONE,
+            confidence: current ? Math.min(1, s[current]) : Math.max(0, 1 - Math.min(1, best)),
+            transitions,
+        };
+    };
+
+    return {
+        update,
+        reset: () => {
+            const ended: GestureTransition[] = current ? [{ type: 'end', gesture: current }] : [];
+            smoothed = null;
+            current = null;
+            candidate = null;
+            return ended;
+        },
+    };
+};
@@ -0,0 +1,74 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { GestureType, MotionGesture } from '../types';
+import { HandRecording, RECORDING_EXTENSION, parseHandRecording, replayHandRecording } from '../services/handRecording';
+import { ScoredGesture } from './gestureClassifier';
+import { createHandPipeline } from './handPipeline';
+
+// Replays the recordings in fixtures/recordings (see fixtures/recordHands.ts)
+
+const load = (name: string): HandRecording =>
+    parseHandRecording(readFileSync(new URL(`../fixtures/recordings/${name}${RECORDING_EXTENSION}`, import.meta.url), 'utf8'));
+
+const firstEmptyFrameAfterHand = (recording: HandRecording) => {
+    const firstHand = recording.frames.findIndex(frame => frame.hands.length > 0);
+    return recording.frames.find((frame, i) => i > firstHand && frame.hands.length === 0)!;
+};
+
+const HELD: [string, ScoredGesture][] = [
+    ['heart', GestureType.HEART],
+    ['victory', GestureType.VICTORY],
+    ['closed-fist', GestureType.CLOSED_FIST],
+    ['pinch', GestureType.PINCH],
+    ['open-hand', GestureType.OPEN_HAND],
+];
+
+describe('held gestures', () => {
+    it.each(HELD)('%s starts once and ends when the hand leaves', (name, gesture) => {
+        const recording = load(name);
+        const { results, events } = replayHandRecording(recording, createHandPipeline());
+
+        expect(events.map(({ type, gesture, handedness }) => [type, gesture, handedness])).toEqual([
+            ['start', gesture, 'Right'],
+            ['end', gesture, 'Right'],
+        ]);
+        expect(events[1].time).toBe(firstEmptyFrameAfterHand(recording).t);
+
+        // Steady while held, once past the enter dwell
+        const held = results.filter(result => result.primary);
+        expect(held.slice(-10).every(result => result.primary!.gesture === gesture)).toBe(true);
+        expect(results.flatMap(result => result.motions)).toEqual([]);
+    });
+
+    it('leaves a hand that makes no gesture at NONE', () => {
+        const { results, events } = replayHandRecording(load('none'), createHandPipeline());
+        expect(events).toEqual([]);
+        expect(results.every(result => !result.primary || result.primary.gesture === GestureType.NONE)).toBe(true);
+    });
+
+    it('feeds frames through process in time order', () => {
+        const recording = load('victory');
+        const pipeline = createHandPipeline();
+        const direct = recording.frames.map(frame => pipeline.process(frame.hands, frame.t));
+        const shuffled = { ...recording, frames: [...recording.frames].reverse() };
+        expect(replayHandRecording(shuffled, createHandPipeline()).results).toEqual(direct);
+    });
+});
+
+const MOTIONS: [string, MotionGesture, boolean | undefined][] = [
+    ['swipe-left', MotionGesture.SWIPE_LEFT, undefined],
+    ['swipe-right', MotionGesture.SWIPE_RIGHT, undefined],
+    ['circle', MotionGesture.CIRCLE, true],
+    ['push', MotionGesture.PUSH, undefined],
+];
+
+describe('motion gestures', () => {
+    it.each(MOTIONS)('%s is detected exactly once', (name, type, clockwise) => {
+        const { results } = replayHandRecording(load(name), createHandPipeline());
+        const motions = results.flatMap(result => result.motions);
+
+        expect(motions).toHaveLength(1);
+        expect(motions[0]).toMatchObject({ type, handedness: 'Right' });
+        expect(motions[0].clockwise).toBe(clockwise);
+    });
+});
@@ -0,0 +1,163 @@
+import { BimanualData, GestureEvent, GestureType, HandDetection, Handedness, TrackedHand } from '../types';
+import { GestureClassifier, distanceClassifier } from './gestureClassifier';
+import { GestureStateMachine, GestureTransition, createGestureStateMachine } from './gestureStateMachine';
+import { MotionDetection, MotionTracker, createMotionTracker } from './motionGestures';
+
+// Turns raw landmark frames into tracked hands: stable identities, per-hand
+// gesture state machines, motion gestures, cursor smoothing and the two-hand relation. It does not care
+// where frames come from, so the live camera and recorded sessions share it.
+
+// Simple Linear Interpolation
+const lerp = (start: number, end: number, t: number) => start * (1 - t) + end * t;
+
+interface HandTrack {
+    gestures: GestureStateMachine;
+    smoothedX: number;
+    smoothedY: number;
+    palm: { x: number; y: number }; // Last raw palm centre, for identity matching
+    motion: MotionTracker;
+}
+
+// MediaPipe labels hands as if the image were mirrored; our webcam frames are not
+const toUserHand = (label: string | undefined): Handedness | null =>
+    label === 'Left' ? 'Right' : label === 'Right' ? 'Left' : null;
+
+// Gives each detection a stable left/right identity. Hands seen last frame
+// keep their identity by proximity, because MediaPipe's label can flicker
+// (especially when hands cross). New hands fall back to the label, and two
+// unknown hands are split by screen position.
+const resolveHandIdentities = (
+    detections: HandDetection[],
+    tracks: Partial<Record<Handedness, HandTrack>>
+): Handedness[] => {
+    const palms = detections.map(d => ({ x: 1 - d.landmarks[9].x, y: d.landmarks[9].y }));
+    const dist = (i: number, side: Handedness) => {
+        const track = tracks[side];
+        return track ? Math.hypot(palms[i].x - track.palm.x, palms[i].y - track.palm.y) : Infinity;
+    };
+
+    if (detections.length === 1) {
+        const known = (['Left', 'Right'] as Handedness[]).filter(side => tracks[side]);
+        if (known.length === 1 && dist(0, known[0]) < 0.2) return [known[0]];
+        return [toUserHand(detections[0].label) ?? (palms[0].x < 0.5 ? 'Left' : 'Right')];
+    }
+    if (detections.length === 2) {
+        if (tracks.Left && tracks.Right) {
+            const straight = dist(0, 'Left') + dist(1, 'Right');
+            const swapped = dist(0, 'Right') + dist(1, 'Left');
+            return straight <= swapped ? ['Left', 'Right'] : ['Right', 'Left'];
+        }
+        const labels = detections.map(d => toUserHand(d.label));
+        if (labels[0] && labels[1] && labels[0] !== labels[1]) return labels as Handedness[];
+        // Mirrored preview: the user's left hand appears on the left
+        return palms[0].x <= palms[1].x ? ['Left', 'Right'] : ['Right', 'Left'];
+    }
+    return [];
+};
+
+export interface HandPipelineResult {
+    hands: TrackedHand[];
+    primary: TrackedHand | null; // Right hand when both are up
+    bimanual: BimanualData | null;
+    motions: (MotionDetection & { handedness: Handedness })[]; // Completed this frame
+    events: GestureEvent[]; // Gestures that started or ended this frame
+}
+
+export interface HandPipeline {
+    // `time` in milliseconds, for motion gestures
+    process: (detections: HandDetection[], time: number) => HandPipelineResult;
+    setClassifier: (classifier: GestureClassifier) => void;
+    // Forgets every hand; returns the end events of gestures still held
+    reset: (time: number) => GestureEvent[];
+}
+
+export interface HandPipelineOptions {
+    classifier?: GestureClassifier;
+}
+
+export const createHandPipeline = ({ classifier = distanceClassifier }: HandPipelineOptions = {}): HandPipeline => {
+    // Per-hand smoothing state, keyed by the user's left/right hand
+    let tracks: Partial<Record<Handedness, HandTrack>> = {};
+
+    const process = (detections: HandDetection[], time: number): HandPipelineResult => {
+        const identities = resolveHandIdentities(detections, tracks);
+
+        const events: GestureEvent[] = [];
+        const toEvents = (side: Handedness, transitions: GestureTransition[]) =>
+            transitions.forEach(({ type, gesture }) => events.push({ type, gesture, handedness: side, time }));
+
+        // Forget hands that left the frame so they start fresh next time
+        (Object.keys(tracks) as Handedness[]).forEach(side => {
+            if (identities.includes(side)) return;
+            toEvents(side, tracks[side]!.gestures.reset());
+            delete tracks[side];
+        });
+
+        const motions: HandPipelineResult['motions'] = [];
+        const hands: TrackedHand[] = detections.map(({ landmarks }, i) => {
+            const side = identities[i];
+            const track = tracks[side] ?? (tracks[side] = {
+                gestures: createGestureStateMachine(),
+                smoothedX: 1 - landmarks[0].x,
+                smoothedY: landmarks[0].y,
+                palm: { x: 1 - landmarks[9].x, y: landmarks[9].y },
+                motion: createMotionTracker(),
+            });
+
+            const motion = track.motion.push(landmarks, time);
+            if (motion) motions.push({ ...motion, handedness: side });
+
+            const scores = classifier.score(landmarks);
+            const { gesture, confidence, transitions } = track.gestures.update(scores, time);
+            toEvents(side, transitions);
+
+            const wrist = landmarks[0];
+            const rawX = 1 - wrist.x;
+            const rawY = wrist.y;
+
+            const distMoved = Math.hypot(rawX - track.smoothedX, rawY - track.smoothedY);
+            const lerpFactor = distMoved > 0.05 ? 0.3 : 0.1; 
+
+            track.smoothedX = lerp(track.smoothedX, rawX, lerpFactor);
+            track.smoothedY = lerp(track.smoothedY, rawY, lerpFactor);
+            track.palm = { x: 1 - landmarks[9].x, y: landmarks[9].y };
+
+            return {
+                handedness: side,
+                gesture,
+                x: track.smoothedX,
+                y: track.smoothedY,
+                pinch: scores[GestureType.PINCH],
+                confidence,
+            };
+        });
+
+        const left = hands.find(h => h.handedness === 'Left');
+        const right = hands.find(h => h.handedness === 'Right');
+
+        let bimanual: BimanualData | null = null;
+        if (left && right) {
+            const leftPalm = tracks.Left!.palm;
+            const rightPalm = tracks.Right!.palm;
+            bimanual = {
+                active: left.gesture === GestureType.PINCH && right.gesture === GestureType.PINCH,
+                distance: Math.hypot(rightPalm.x - leftPalm.x, rightPalm.y - leftPalm.y),
+                angle: Math.atan2(rightPalm.y - leftPalm.y, rightPalm.x - leftPalm.x),
+            };
+        }
+
+        return { hands, primary: right ?? left ?? null, bimanual, motions, events };
+    };
+
+    return {
+        process,
+        // Takes effect from the next frame; gesture states are kept so the gesture does not blink
+        setClassifier: next => { classifier = next; },
+        reset: time => {
+            const events = (Object.keys(tracks) as Handedness[]).flatMap(side =>
+                tracks[side]!.gestures.reset().map(({ type, gesture }) => ({ type, gesture, handedness: side, time })));
+            tracks = {};
+            return events;
+        },
+    };
+};
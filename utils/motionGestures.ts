@@ -0,0 +1,134 @@
+import { Landmark, MotionGesture } from '../types';
+
+// Motion gestures from a hand's recent trajectory: swipes from the wrist,
+// circles from the index fingertip, and pushes toward the camera.
+//
+// MediaPipe's normalized z is measured from the wrist, so the wrist itself is
+// always at depth 0 and z alone cannot tell how far the hand is. A push is
+// detected from the palm growing on screen instead, and the fingertips' z
+// confirms the palm faces the camera rather than tipping over.
+
+export interface MotionDetection {
+    type: MotionGesture;
+    clockwise?: boolean; // CIRCLE only, as seen in the mirrored preview
+}
+
+interface MotionSample {
+    t: number;
+    wrist: { x: number; y: number };
+    tip: { x: number; y: number };
+    palmSize: number;
+    tipDepth: number; // Mean fingertip z; strongly negative when fingers point at the camera
+}
+
+const HISTORY_MS = 1200;
+const REFRACTORY_MS = 600; // Quiet time after a detection, so one motion fires once
+
+const SWIPE_WINDOW_MS = 350;
+const SWIPE_DISTANCE = 0.25; // Share of the frame width
+const SWIPE_MAX_SLOPE = 0.5; // Vertical drift allowed per unit of horizontal travel
+const SWIPE_MAX_CURVE = 1.2; // Path length over straight-line distance
+
+const CIRCLE_MIN_TURN = Math.PI * 2 * 0.85;
+const CIRCLE_MIN_RADIUS = 0.04;
+const CIRCLE_MAX_WOBBLE = 0.45; // Spread of the radius relative to its mean
+
+const PUSH_WINDOW_MS = 400;
+const PUSH_GROWTH = 1.3; // Palm at least this much bigger on screen
+const PUSH_MAX_DRIFT = 0.1;
+const PUSH_MAX_TIP_DEPTH = 0.15; // Fingertips further forward than this: a point, not a push
+
+const wrapAngle = (a: number) => a > Math.PI ? a - Math.PI * 2 : a < -Math.PI ? a + Math.PI * 2 : a;
+
+const toSample = (landmarks: Landmark[], t: number): MotionSample => {
+    // Mirrored like the preview, so "left" is the user's left
+    const wrist = { x: 1 - landmarks[0].x, y: landmarks[0].y };
+    const tip = { x: 1 - landmarks[8].x, y: landmarks[8].y };
+    const palmSize = Math.hypot(landmarks[9].x - landmarks[0].x, landmarks[9].y - landmarks[0].y);
+    const tipDepth = [8, 12, 16, 20].reduce((sum, i) => sum + landmarks[i].z, 0) / 4;
+    return { t, wrist, tip, palmSize, tipDepth };
+};
+
+const detectSwipe = (samples: MotionSample[]): MotionDetection | null => {
+    if (samples.length < 3) return null;
+    const first = samples[0].wrist;
+    const last = samples[samples.length - 1].wrist;
+    const dx = last.x - first.x;
+    const dy = last.y - first.y;
+    if (Math.abs(dx) < SWIPE_DISTANCE || Math.abs(dy) > Math.abs(dx) * SWIPE_MAX_SLOPE) return null;
+
+    let path = 0;
+    for (let i = 1; i < samples.length; i++) {
+        path += Math.hypot(samples[i].wrist.x - samples[i - 1].wrist.x, samples[i].wrist.y - samples[i - 1].wrist.y);
+    }
+    if (path > Math.hypot(dx, dy) * SWIPE_MAX_CURVE) return null;
+
+    return { type: dx < 0 ? MotionGesture.SWIPE_LEFT : MotionGesture.SWIPE_RIGHT };
+};
+
+const detectCircle = (samples: MotionSample[]): MotionDetection | null => {
+    if (samples.length < 10) return null;
+    const cx = samples.reduce((sum, s) => sum + s.tip.x, 0) / samples.length;
+    const cy = samples.reduce((sum, s) => sum + s.tip.y, 0) / samples.length;
+
+    const radii = samples.map(s => Math.hypot(s.tip.x - cx, s.tip.y - cy));
+    const meanRadius = radii.reduce((sum, r) => sum + r, 0) / radii.length;
+    if (meanRadius < CIRCLE_MIN_RADIUS) return null;
+    const spread = Math.sqrt(radii.reduce((sum, r) => sum + (r - meanRadius) ** 2, 0) / radii.length);
+    if (spread / meanRadius > CIRCLE_MAX_WOBBLE) return null;
+
+    let turn = 0;
+    for (let i = 1; i < samples.length; i++) {
+        const a = Math.atan2(samples[i - 1].tip.y - cy, samples[i - 1].tip.x - cx);
+        const b = Math.atan2(samples[i].tip.y - cy, samples[i].tip.x - cx);
+        turn += wrapAngle(b - a);
+    }
+    if (Math.abs(turn) < CIRCLE_MIN_TURN) return null;
+
+    // Screen y points down, so a positive turn is clockwise on screen
+    return { type: MotionGesture.CIRCLE, clockwise: turn > 0 };
+};
+
+const detectPush = (samples: MotionSample[]): MotionDetection | null => {
+    if (samples.length < 3) return null;
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    if (first.palmSize <= 0 || last.palmSize / first.palmSize < PUSH_GROWTH) return null;
+    if (Math.hypot(last.wrist.x - first.wrist.x, last.wrist.y - first.wrist.y) > PUSH_MAX_DRIFT) return null;
+    if (Math.abs(last.tipDepth) > PUSH_MAX_TIP_DEPTH) return null;
+    return { type: MotionGesture.PUSH };
+};
+
+export interface MotionTracker {
+    // Feed one frame of a hand; returns a motion when one just completed
+    push: (landmarks: Landmark[], time: number) => MotionDetection | null;
+    reset: () => void;
+}
+
+export const createMotionTracker = (): MotionTracker => {
+    let samples: MotionSample[] = [];
+    let quietUntil = 0;
+
+    const push = (landmarks: Landmark[], time: number): MotionDetection | null => {
+        samples.push(toSample(landmarks, time));
+        while (samples.length > 0 && samples[0].t < time - HISTORY_MS) samples.shift();
+        if (time < quietUntil) return null;
+
+        const recent = (windowMs: number) => samples.filter(s => s.t >= time - windowMs);
+        // Circles are checked first: part of a circle can look like a swipe
+        const detection = detectCircle(samples) ?? detectSwipe(recent(SWIPE_WINDOW_MS)) ?? detectPush(recent(PUSH_WINDOW_MS));
+        if (detection) {
+            samples = [];
+            quietUntil = time + REFRACTORY_MS;
+        }
+        return detection;
+    };
+
+    return {
+        push,
+        reset: () => {
+            samples = [];
+            quietUntil = 0;
+        },
+    };
+};
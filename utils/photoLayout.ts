@@ -0,0 +1,122 @@
+import { PhotoData, SceneConfig } from '../types';
+import { getTreeMaxRadius } from './sceneConfig';
+
+type Vec3 = [number, number, number];
+
+// Tree cone the photos hang on, centred on the origin (tip at +height/2)
+export interface TreeCone {
+    height: number;
+    radius: number;
+}
+
+export const getTreeCone = (tree: SceneConfig['tree']): TreeCone => ({
+    height: tree.height,
+    radius: getTreeMaxRadius(tree),
+});
+
+// Keep frames one unit off the very tip and the bottom edge
+export const getPhotoHeightRange = (cone: TreeCone) => ({
+    minY: -cone.height / 2 + 1,
+    maxY: cone.height / 2 - 1,
+});
+
+// Frames are ~1.08 units wide and drawn at 0.8 scale on the tree, 1.2 when scattered
+const TREE_MIN_SPACING = 1.0;
+const SCATTER_MIN_SPACING = 1.6;
+const SCATTER_MIN_RADIUS = 10;
+const SCATTER_MAX_RADIUS = 15;
+
+const RELAX_ITERATIONS = 40;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// Point on the cone surface at height y, facing direction theta
+export const getConeSurfacePos = (cone: TreeCone, theta: number, y: number): Vec3 => {
+    // h goes from 0 at the base to 1 at the tip
+    const h = (y + cone.height / 2) / cone.height;
+    const radiusAtY = cone.radius * (1 - h);
+    return [radiusAtY * Math.cos(theta), y, radiusAtY * Math.sin(theta)];
+};
+
+// Pushes apart any pair closer than minSpacing, then lets `project` snap each
+// point back onto its surface (and hold any coordinate that must not change)
+const relax = (points: Vec3[], minSpacing: number, project: (p: Vec3, i: number) => Vec3) => {
+    for (let iter = 0; iter < RELAX_ITERATIONS; iter++) {
+        let moved = false;
+        for (let i = 0; i < points.length; i++) {
+            for (let j = i + 1; j < points.length; j++) {
+                const dx = points[j][0] - points[i][0];
+                const dy = points[j][1] - points[i][1];
+                const dz = points[j][2] - points[i][2];
+                const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+                if (dist >= minSpacing) continue;
+
+                // Split the overlap between both points
+                const push = (minSpacing - dist) / 2;
+                const nx = dist > 1e-6 ? dx / dist : 1;
+                const ny = dist > 1e-6 ? dy / dist : 0;
+                const nz = dist > 1e-6 ? dz / dist : 0;
+                points[i] = project([points[i][0] - nx * push, points[i][1] - ny * push, points[i][2] - nz * push], i);
+                points[j] = project([points[j][0] + nx * push, points[j][1] + ny * push, points[j][2] + nz * push], j);
+                moved = true;
+            }
+        }
+        if (!moved) break;
+    }
+    return points;
+};
+
+// Spreads `pinnedY.length` frames evenly over the cone surface.
+// Slots follow a golden-angle spiral where each slot covers the same surface
+// area, so the wide bottom of the tree gets more photos than the narrow top.
+// Entries with a pinned height keep that height and only move around the tree.
+export const layoutTreePositions = (pinnedY: (number | undefined)[], cone: TreeCone): Vec3[] => {
+    const count = pinnedY.length;
+    const { minY, maxY } = getPhotoHeightRange(cone);
+    const clampY = (y: number) => Math.max(minY, Math.min(maxY, y));
+
+    // Distance from the tip along the axis; cone area above it grows with its square
+    const tipY = cone.height / 2;
+    const nearSq = Math.pow(tipY - maxY, 2);
+    const farSq = Math.pow(tipY - minY, 2);
+
+    const points = pinnedY.map((pinned, i) => {
+        const f = (i + 0.5) / count;
+        const y = pinned ?? tipY - Math.sqrt(nearSq + f * (farSq - nearSq));
+        return getConeSurfacePos(cone, i * GOLDEN_ANGLE, clampY(y));
+    });
+
+    return relax(points, TREE_MIN_SPACING, ([x, y, z], i) => {
+        const pinned = pinnedY[i];
+        return getConeSurfacePos(cone, Math.atan2(z, x), clampY(pinned ?? y));
+    });
+};
+
+// Spreads `count` focus/scatter spots over a thick spherical shell
+export const layoutScatterPositions = (count: number): Vec3[] => {
+    const points = Array.from({ length: count }, (_, i): Vec3 => {
+        // Fibonacci sphere for direction, alternating depth within the shell
+        const yUnit = 1 - (2 * (i + 0.5)) / count;
+        const ring = Math.sqrt(1 - yUnit * yUnit);
+        const theta = i * GOLDEN_ANGLE;
+        const depth = (i * 0.618033988749895) % 1;
+        const r = SCATTER_MIN_RADIUS + depth * (SCATTER_MAX_RADIUS - SCATTER_MIN_RADIUS);
+        return [r * ring * Math.cos(theta), r * yUnit, r * ring * Math.sin(theta)];
+    });
+
+    return relax(points, SCATTER_MIN_SPACING, ([x, y, z]) => {
+        const len = Math.sqrt(x * x + y * y + z * z) || 1;
+        const r = Math.max(SCATTER_MIN_RADIUS, Math.min(SCATTER_MAX_RADIUS, len));
+        return [(x / len) * r, (y / len) * r, (z / len) * r];
+    });
+};
+
+// Re-lays out the whole album, keeping photo order and pinned heights
+export const layoutPhotos = (photos: PhotoData[], cone: TreeCone): PhotoData[] => {
+    const treePositions = layoutTreePositions(photos.map(p => p.pinnedY), cone);
+    const scatterPositions = layoutScatterPositions(photos.length);
+    return photos.map((photo, i) => ({
+        ...photo,
+        position: treePositions[i],
+        scatterPosition: scatterPositions[i],
+    }));
+};
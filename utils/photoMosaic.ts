@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+
+// A photo rebuilt from the tree's particles: one particle per cell of a grid
+// with the photo's aspect ratio and about as many cells as there are
+// particles, coloured by the average of the photo under its cell.
+
+const SPARE_DEPTH = 0.1; // How far behind the picture doubled-up particles sit
+const TILE_FILL = 0.95; // Share of a cell its particle covers; the rest is grout
+
+export interface PhotoMosaic {
+    positions: Float32Array; // xyz per particle
+    colors: Float32Array; // Linear rgb per particle
+    tileSize: number; // World width each particle should cover
+}
+
+export const loadMosaicImage = (url: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load ${url} for the mosaic`));
+    image.src = url;
+});
+
+export const createPhotoMosaic = (image: HTMLImageElement, count: number, isMobile: boolean): PhotoMosaic => {
+    const mosaic: PhotoMosaic = { positions: new Float32Array(count * 3), colors: new Float32Array(count * 3), tileSize: 0 };
+    if (count === 0) return mosaic;
+
+    // Largest grid with the photo's shape that every cell can get a particle for
+    const aspect = (image.naturalWidth || 1) / (image.naturalHeight || 1);
+    const cols = Math.max(1, Math.min(count, Math.round(Math.sqrt(count * aspect))));
+    const rows = Math.max(1, Math.floor(count / cols));
+    const cells = cols * rows;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = cols;
+    canvas.height = rows;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return mosaic;
+    // Downscaling averages each cell's pixels
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, 0, 0, cols, rows);
+    const data = ctx.getImageData(0, 0, cols, rows).data;
+
+    // Fit the view, a little inside the text's area
+    const maxWidth = isMobile ? 8.5 : 15;
+    const maxHeight = isMobile ? 4.25 : 7.5;
+    const width = Math.min(maxWidth, maxHeight * aspect);
+    const cell = width / cols;
+    mosaic.tileSize = cell * TILE_FILL;
+
+    // Leftover particles double up on cells rather than sit outside the picture
+    const color = new THREE.Color();
+    for (let i = 0; i < count; i++) {
+        const c = i % cells;
+        const x = c % cols;
+        const y = Math.floor(c / cols);
+        mosaic.positions[i * 3] = (x + 0.5 - cols / 2) * cell;
+        mosaic.positions[i * 3 + 1] = -(y + 0.5 - rows / 2) * cell;
+        mosaic.positions[i * 3 + 2] = i < cells ? 0 : -SPARE_DEPTH;
+        color.setRGB(data[c * 4] / 255, data[c * 4 + 1] / 255, data[c * 4 + 2] / 255, THREE.SRGBColorSpace);
+        color.toArray(mosaic.colors, i * 3);
+    }
+
+    return mosaic;
+};
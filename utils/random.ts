@@ -0,0 +1,38 @@
+// Deterministic random numbers for scene generation.
+// Every generator asks for its own named stream, so adding draws to one
+// (e.g. more snow) does not reshuffle another (e.g. the ornament mix).
+
+export type Random = () => number;
+
+// 32-bit FNV-1a, used to turn seed + stream name into a generator state
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// Mulberry32: tiny, fast and good enough for visual layout
+const mulberry32 = (state: number): Random => () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const createRandom = (seed: number, stream: string): Random =>
+    mulberry32(hashString(`${seed}:${stream}`));
+
+export const MAX_SEED = 0xffffffff;
+
+export const randomSeed = (): number => Math.floor(Math.random() * MAX_SEED);
+
+// Accepts anything a user might type or a URL might carry; null if unusable
+export const parseSeed = (value: unknown): number | null => {
+    const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+    if (!Number.isInteger(n) || n < 0 || n > MAX_SEED) return null;
+    return n;
+};
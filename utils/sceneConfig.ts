@@ -0,0 +1,178 @@
+import { OrnamentType, SceneConfig } from '../types';
+import { isTimeZone, parseDateTime } from './countdown';
+
+export const DEFAULT_SCENE_CONFIG: SceneConfig = {
+  // Aspect Ratio 1:0.7 -> Width = 0.7 * Height
+  tree: {
+    height: 12,
+    widthRatio: 0.7,
+  },
+  particles: {
+    count: 9000,
+    mobileCount: 3500,
+    yellowRatio: 0.3,
+    greenColor: '#22c55e',
+    greenEmissive: '#15803d',
+    yellowColor: '#facc15',
+    yellowEmissive: '#eab308',
+  },
+  ornaments: {
+    count: 700,
+    mobileCount: 400,
+    weights: { box: 0.20, sphere: 0.20, bell: 0.15, pinecone: 0.15, stocking: 0.15, cane: 0.15 },
+    boxColors: ['#ef4444', '#fbbf24'],
+  },
+  snow: {
+    count: 1200,
+  },
+  lights: {
+    ambientIntensity: 0.15,
+    redPosition: [10, 10, 10],
+    redColor: '#ff0000',
+    greenPosition: [-10, -5, -10],
+    greenColor: '#00ff00',
+    spotPosition: [0, 15, 0],
+    spotIntensity: 2.0,
+  },
+  bloom: {
+    luminanceThreshold: 1,
+    intensity: 1.5,
+    radius: 0.4,
+  },
+  messages: {
+    text: 'Merry\nChristmas',
+    love: 'G X X',
+  },
+  countdown: {
+    target: '',
+    timeZone: '',
+  },
+};
+
+export const getTreeMaxRadius = (tree: SceneConfig['tree']) => (tree.height * tree.widthRatio) / 2;
+
+// Partial at every level, for patches and hand-written JSON files
+export type SceneConfigPatch = {
+  [K in keyof SceneConfig]?: Partial<SceneConfig[K]>;
+};
+
+type Section = keyof SceneConfig;
+type FieldValidator = (value: unknown) => boolean;
+
+const COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+// Far past readable; only stops a pasted document from stalling the layout
+const MAX_MESSAGE_LENGTH = 2000;
+
+const isNumberIn = (min: number, max: number): FieldValidator => value =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+const isIntegerIn = (min: number, max: number): FieldValidator => value =>
+  isNumberIn(min, max)(value) && Number.isInteger(value);
+const isColor: FieldValidator = value => typeof value === 'string' && COLOR_PATTERN.test(value);
+const isVec3: FieldValidator = value =>
+  Array.isArray(value) && value.length === 3 && value.every(isNumberIn(-1000, 1000));
+// Any number of lines; the text formation shrinks the font to fit them
+const isMessage: FieldValidator = value =>
+  typeof value === 'string' && value.trim() !== '' && value.length <= MAX_MESSAGE_LENGTH;
+const isCountdownTarget: FieldValidator = value => typeof value === 'string' && (value === '' || parseDateTime(value) !== null);
+const isTimeZoneName: FieldValidator = value => typeof value === 'string' && (value === '' || isTimeZone(value));
+const isColorList: FieldValidator = value => Array.isArray(value) && value.length > 0 && value.every(isColor);
+const isWeights: FieldValidator = value => {
+  if (!value || typeof value !== 'object') return false;
+  const weights = value as Record<string, unknown>;
+  const types = Object.keys(DEFAULT_SCENE_CONFIG.ornaments.weights) as OrnamentType[];
+  return types.every(type => isNumberIn(0, 1000)(weights[type]))
+    && types.some(type => (weights[type] as number) > 0);
+};
+
+// Limits keep a typo in a JSON file from freezing the browser
+const VALIDATORS: { [S in Section]: Record<keyof SceneConfig[S], FieldValidator> } = {
+  tree: {
+    height: isNumberIn(2, 40),
+    widthRatio: isNumberIn(0.1, 2),
+  },
+  particles: {
+    count: isIntegerIn(0, 200000),
+    mobileCount: isIntegerIn(0, 200000),
+    yellowRatio: isNumberIn(0, 1),
+    greenColor: isColor,
+    greenEmissive: isColor,
+    yellowColor: isColor,
+    yellowEmissive: isColor,
+  },
+  ornaments: {
+    count: isIntegerIn(0, 20000),
+    mobileCount: isIntegerIn(0, 20000),
+    weights: isWeights,
+    boxColors: isColorList,
+  },
+  snow: {
+    count: isIntegerIn(0, 20000),
+  },
+  lights: {
+    ambientIntensity: isNumberIn(0, 10),
+    redPosition: isVec3,
+    redColor: isColor,
+    greenPosition: isVec3,
+    greenColor: isColor,
+    spotPosition: isVec3,
+    spotIntensity: isNumberIn(0, 50),
+  },
+  bloom: {
+    luminanceThreshold: isNumberIn(0, 10),
+    intensity: isNumberIn(0, 20),
+    radius: isNumberIn(0, 1),
+  },
+  messages: {
+    text: isMessage,
+    love: isMessage,
+  },
+  countdown: {
+    target: isCountdownTarget,
+    timeZone: isTimeZoneName,
+  },
+};
+
+export interface SceneConfigResult {
+  config: SceneConfig;
+  errors: string[]; // One message per rejected or unknown field
+}
+
+// Applies an untrusted patch (user edit or loaded JSON) on top of `base`.
+// Invalid fields keep their base value and are reported. Sections that end up
+// unchanged keep their object identity so their subsystem does not rebuild.
+export const applySceneConfig = (base: SceneConfig, patch: unknown): SceneConfigResult => {
+  const errors: string[] = [];
+  if (!patch || typeof patch !== 'object' || Array.isArray(patch)) {
+    return { config: base, errors: ['Scene config must be a JSON object'] };
+  }
+
+  const config = { ...base };
+  Object.entries(patch as Record<string, unknown>).forEach(([sectionName, sectionPatch]) => {
+    if (!(sectionName in VALIDATORS)) {
+      errors.push(`Unknown section "${sectionName}"`);
+      return;
+    }
+    const section = sectionName as Section;
+    if (!sectionPatch || typeof sectionPatch !== 'object' || Array.isArray(sectionPatch)) {
+      errors.push(`"${section}" must be an object`);
+      return;
+    }
+
+    const validators = VALIDATORS[section] as Record<string, FieldValidator>;
+    const next: Record<string, unknown> = { ...base[section] };
+    let changed = false;
+    Object.entries(sectionPatch as Record<string, unknown>).forEach(([field, value]) => {
+      if (!(field in validators)) {
+        errors.push(`Unknown setting "${section}.${field}"`);
+      } else if (!validators[field](value)) {
+        errors.push(`Invalid value for "${section}.${field}": ${JSON.stringify(value)}`);
+      } else if (JSON.stringify(value) !== JSON.stringify(next[field])) {
+        next[field] = value;
+        changed = true;
+      }
+    });
+    if (changed) (config as Record<Section, unknown>)[section] = next;
+  });
+
+  return { config, errors };
+};
@@ -0,0 +1,179 @@
+import { Random } from './random';
+
+// Particle layouts for TEXT and LOVE mode. The message is drawn on an
+// off-screen canvas, shrunk until every line fits, and particles are placed on
+// the lit pixels. Where each word and letter landed comes back too, in the same
+// world units, so the star can sit on them.
+
+// Canvas every formation is drawn on; it spans the whole view
+export const FORMATION_WIDTH = 256;
+export const FORMATION_HEIGHT = 128;
+export const TEXT_DEPTH = 0.8; // World units of random depth, for a 3D volume effect
+const FONT_FAMILY = '"Mountains of Christmas", serif';
+const MAX_FONT_SIZE = 50; // Canvas pixels; short messages never grow past this
+const MIN_FONT_SIZE = 8;
+export const READABLE_FONT_SIZE = 12; // Below this the letters blur into each other
+const LINE_HEIGHT = 1.1; // Multiple of the font size
+const FILL = 0.94; // Share of the canvas the text may cover
+
+export interface TextAnchor {
+    x: number; // Horizontal centre
+    left: number;
+    top: number; // Top of the ink
+}
+
+export interface TextFormation {
+    positions: Float32Array; // xyz per particle
+    words: TextAnchor[]; // Whitespace-separated, in reading order
+    letters: TextAnchor[]; // Every visible grapheme, in reading order
+}
+
+interface Segment {
+    text: string;
+    index: number;
+}
+
+// Graphemes rather than code points, so accents and emoji stay whole
+const segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+    ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+    : null;
+
+const splitLetters = (line: string): Segment[] => {
+    if (segmenter) return Array.from(segmenter.segment(line), s => ({ text: s.segment, index: s.index }));
+    let index = 0;
+    return Array.from(line, text => {
+        const segment = { text, index };
+        index += text.length;
+        return segment;
+    });
+};
+
+const splitWords = (line: string): Segment[] =>
+    Array.from(line.matchAll(/\S+/g), match => ({ text: match[0], index: match.index ?? 0 }));
+
+// Lines to draw; blank lines around the message are dropped
+export const getMessageLines = (message: string) => message.trim().split('\n').map(line => line.trim());
+
+export interface FormationPixel {
+    x: number;
+    y: number;
+}
+
+// World units per canvas pixel; the view is narrower on phones
+export const getPixelScale = (isMobile: boolean) => (isMobile ? 9 : 16) / FORMATION_WIDTH;
+
+// Puts `count` particles on the lit pixels of a width x height image centred on
+// the origin, cycling through the pixels, with random depth. xyz per particle.
+export const placeOnPixels = (
+    pixels: FormationPixel[], width: number, height: number, count: number,
+    isMobile: boolean, random: Random, depth = TEXT_DEPTH
+): Float32Array => {
+    const result = new Float32Array(count * 3);
+    if (pixels.length === 0) return result;
+
+    const scale = getPixelScale(isMobile);
+    for(let i = 0; i < count; i++) {
+        const pixel = pixels[i % pixels.length];
+
+        // Add random Z depth for 3D volume effect
+        const nz = (random() - 0.5) * depth;
+
+        // Add slight jitter to x/y to prevent grid look
+        const jitter = 0.05;
+        result[i * 3] = (pixel.x - width / 2) * scale + (random() - 0.5) * jitter;
+        result[i * 3 + 1] = -(pixel.y - height / 2) * scale + (random() - 0.5) * jitter; // Invert Y
+        result[i * 3 + 2] = nz;
+    }
+
+    // Shuffle the result so particles fill in randomly
+    for (let i = count - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        for (let k = 0; k < 3; k++) {
+            [result[i * 3 + k], result[j * 3 + k]] = [result[j * 3 + k], result[i * 3 + k]];
+        }
+    }
+
+    return result;
+};
+
+// Largest size at which the widest line and all the lines together fit the
+// canvas; may be below MIN_FONT_SIZE, which the formation then uses anyway
+const fitFontSize = (ctx: CanvasRenderingContext2D, lines: string[]) => {
+    ctx.font = `bold ${MAX_FONT_SIZE}px ${FONT_FAMILY}`;
+    const widest = Math.max(1, ...lines.map(line => ctx.measureText(line).width));
+    return Math.floor(Math.min(
+        MAX_FONT_SIZE,
+        (MAX_FONT_SIZE * FORMATION_WIDTH * FILL) / widest,
+        (FORMATION_HEIGHT * FILL) / (lines.length * LINE_HEIGHT)
+    ));
+};
+
+// Font size (canvas pixels) a message would be drawn at, so the settings can
+// warn when it is too dense to read; null without a 2D canvas
+export const getMessageFontSize = (message: string): number | null => {
+    const ctx = document.createElement('canvas').getContext('2d');
+    return ctx && fitFontSize(ctx, getMessageLines(message));
+};
+
+export const createTextFormation = (message: string, count: number, isMobile: boolean, random: Random): TextFormation => {
+    const formation: TextFormation = { positions: new Float32Array(count * 3), words: [], letters: [] };
+    const canvas = document.createElement('canvas');
+    const width = FORMATION_WIDTH;
+    const height = FORMATION_HEIGHT;
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) return formation;
+
+    // Draw background and text
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+
+    const lines = getMessageLines(message);
+    const fontSize = Math.max(MIN_FONT_SIZE, fitFontSize(ctx, lines));
+
+    ctx.font = `bold ${fontSize}px ${FONT_FAMILY}`;
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    const scale = getPixelScale(isMobile);
+    const toWorldX = (x: number) => (x - width / 2) * scale;
+    const toWorldY = (y: number) => -(y - height / 2) * scale; // Invert Y
+
+    lines.forEach((line, i) => {
+        const y = height / 2 + (i - (lines.length - 1) / 2) * fontSize * LINE_HEIGHT;
+        ctx.fillText(line, width / 2, y);
+
+        const lineLeft = width / 2 - ctx.measureText(line).width / 2;
+        const anchor = ({ text, index }: Segment): TextAnchor => {
+            const left = lineLeft + ctx.measureText(line.slice(0, index)).width;
+            const metrics = ctx.measureText(text);
+            return {
+                x: toWorldX(left + metrics.width / 2),
+                left: toWorldX(left),
+                top: toWorldY(y - metrics.actualBoundingBoxAscent),
+            };
+        };
+        formation.words.push(...splitWords(line).map(anchor));
+        formation.letters.push(...splitLetters(line).filter(s => s.text.trim()).map(anchor));
+    });
+
+    const imgData = ctx.getImageData(0, 0, width, height);
+    const data = imgData.data;
+    const validPixels: FormationPixel[] = [];
+
+    // Scan for white pixels
+    for(let i = 0; i < width * height; i++) {
+        // Check Alpha and Red channel (white text)
+        if(data[i * 4] > 100) {
+            const x = (i % width);
+            const y = Math.floor(i / width);
+            validPixels.push({x, y});
+        }
+    }
+
+    formation.positions = placeOnPixels(validPixels, width, height, count, isMobile, random);
+    return formation;
+};
@@ -0,0 +1,95 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+import { AssetSource, CAPTION_FONT, FACE_MODEL, FONTS, HAND_MODEL, MEDIAPIPE_WASM, NIGHT_HDR, TAILWIND } from './services/assetSources';
+
+// Offline build: copies the MediaPipe runtime, the hand and face models, the
+// fonts, the scene's lighting and the Tailwind script into the output, and bundles the app's own
+// dependencies instead of loading them through index.html's import map. The
+// result runs without internet access. Downloads are cached between builds.
+
+const CACHE_DIR = path.resolve(__dirname, 'node_modules/.cache/offline-assets');
+const WASM_DIR = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/wasm');
+// Google Fonts only serves woff2 to browsers it recognises
+const FONT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+const download = async (label: string, url: string, headers: Record<string, string> = {}): Promise<Buffer> => {
+    const cached = path.join(CACHE_DIR, createHash('sha1').update(url).digest('hex'));
+    if (fs.existsSync(cached)) return fs.readFileSync(cached);
+
+    let response: Response;
+    try {
+        response = await fetch(url, { headers });
+    } catch (error) {
+        throw new Error(`Offline build: could not download the ${label} from ${url}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!response.ok) {
+        throw new Error(`Offline build: could not download the ${label} from ${url} (HTTP ${response.status})`);
+    }
+    const data = Buffer.from(await response.arrayBuffer());
+    fs.mkdirSync(CACHE_DIR, { recursive: true });
+    fs.writeFileSync(cached, data);
+    return data;
+};
+
+const IMPORT_MAP = /<script type="importmap">[\s\S]*?<\/script>\s*/;
+
+export const offlineAssets = (base: string): Plugin[] => {
+    const localUrl = (source: AssetSource) => base + source.local;
+
+    return [
+        {
+            // Runs before Vite reads index.html, so the injected entry gets bundled
+            name: 'offline-assets:entry',
+            apply: 'build',
+            transformIndexHtml: {
+                order: 'pre',
+                handler: html => html
+                    .replace(IMPORT_MAP, '')
+                    .replace('</body>', '    <script type="module" src="/index.tsx"></script>\n  </body>'),
+            },
+        },
+        {
+            name: 'offline-assets:files',
+            apply: 'build',
+            transformIndexHtml: {
+                // After Vite's own processing, which would try to resolve the local paths
+                order: 'post',
+                handler: html => {
+                    for (const source of [TAILWIND, FONTS]) {
+                        if (!html.includes(source.remote)) {
+                            console.warn(`Offline build: index.html no longer loads the ${source.label} from ${source.remote}`);
+                        }
+                        html = html.replace(source.remote, localUrl(source));
+                    }
+                    return html;
+                },
+            },
+            async generateBundle() {
+                for (const file of fs.readdirSync(WASM_DIR)) {
+                    this.emitFile({
+                        type: 'asset',
+                        fileName: `${MEDIAPIPE_WASM.local}/${file}`,
+                        source: fs.readFileSync(path.join(WASM_DIR, file)),
+                    });
+                }
+
+                for (const asset of [HAND_MODEL, FACE_MODEL, NIGHT_HDR, CAPTION_FONT, TAILWIND]) {
+                    this.emitFile({ type: 'asset', fileName: asset.local, source: await download(asset.label, asset.remote) });
+                }
+
+                // The stylesheet points at font files on another host; fetch them and point it at local copies
+                const fontDir = path.posix.dirname(FONTS.local);
+                let css = (await download(FONTS.label, FONTS.remote, { 'User-Agent': FONT_USER_AGENT })).toString('utf8');
+                const fontUrls = [...new Set([...css.matchAll(/url\((https:[^)]+)\)/g)].map(match => match[1]))];
+                for (const [i, url] of fontUrls.entries()) {
+                    const fileName = `font-${i}${path.extname(new URL(url).pathname)}`;
+                    this.emitFile({ type: 'asset', fileName: `${fontDir}/${fileName}`, source: await download(FONTS.label, url) });
+                    css = css.split(url).join(`./${fileName}`);
+                }
+                this.emitFile({ type: 'asset', fileName: FONTS.local, source: css });
+            },
+        },
+    ];
+};
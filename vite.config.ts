@@ -1,18 +1,25 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { offlineAssets } from './vite-offline-assets';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // `vite build --mode offline` (or OFFLINE_ASSETS=true) bundles every asset into the output
+    const offline = mode === 'offline' || env.OFFLINE_ASSETS === 'true';
+    // Where the app is served from, e.g. /tree/; the offline assets live under it too
+    const base = `/${(env.BASE_PATH || '').replace(/^\/+|\/+$/g, '')}/`.replace('//', '/');
     return {
+      base,
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), ...(offline ? offlineAssets(base) : [])],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.ASSET_BASE': JSON.stringify(base)
       },
       resolve: {
         alias: {